@@ -0,0 +1,120 @@
+// Retrieval evaluation: index a corpus with one or two configurations, run the golden questions
+// and report recall@k, MRR and nDCG@k. Exits non-zero on errors, and on regressions when asked to.
+//
+//   npm run eval -- [--corpus eval/corpus] [--golden eval/golden.json] [--config a.json]
+//                   [--compare b.json] [--k 1,3,5,10] [--fail-on-regression] [--verbose]
+
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, join, relative, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  CorpusDocument,
+  DEFAULT_KS,
+  evaluate,
+  EvaluationReport,
+  parseGolden,
+  resolveConfig
+} from '../src/lib/evaluation';
+
+const CORPUS_EXTENSIONS = ['.md', '.txt', '.json'];
+
+const loadCorpus = async (root: string): Promise<CorpusDocument[]> => {
+  const entries = await readdir(root, { recursive: true, withFileTypes: true });
+  const files = entries
+    .filter(entry => entry.isFile() && CORPUS_EXTENSIONS.some(ext => entry.name.toLowerCase().endsWith(ext)))
+    .map(entry => join(entry.parentPath, entry.name))
+    .sort();
+
+  return Promise.all(files.map(async file => ({
+    // Golden files use forward slashes on every platform
+    id: relative(root, file).split(sep).join('/'),
+    content: await readFile(file, 'utf8')
+  })));
+};
+
+const loadConfig = async (file: string | undefined) => {
+  if (!file) return resolveConfig({}, 'default');
+  return resolveConfig(JSON.parse(await readFile(file, 'utf8')), basename(file, '.json'));
+};
+
+const metricsOf = (report: EvaluationReport): [string, number][] => [
+  ...report.ks.map(k => [`recall@${k}`, report.recall[k]] as [string, number]),
+  ['MRR', report.mrr],
+  ...report.ks.map(k => [`nDCG@${k}`, report.ndcg[k]] as [string, number])
+];
+
+const printTable = (reports: EvaluationReport[]) => {
+  const rows = metricsOf(reports[0]).map(([metric], i) => {
+    const values = reports.map(report => metricsOf(report)[i][1]);
+    const delta = values.length === 2 ? values[1] - values[0] : undefined;
+    return [
+      metric,
+      ...values.map(value => value.toFixed(3)),
+      ...(delta === undefined ? [] : [`${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`])
+    ];
+  });
+  const header = ['metric', ...reports.map(report => report.config), ...(reports.length === 2 ? ['delta'] : [])];
+  const widths = header.map((cell, column) => Math.max(cell.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+
+  console.log(format(header));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+};
+
+const printQuestions = (report: EvaluationReport) => {
+  console.log(`\n${report.config}:`);
+  for (const question of report.questions) {
+    const ranks = question.ranks.map(rank => (rank === null ? '-' : String(rank))).join(', ');
+    console.log(`  RR ${question.reciprocalRank.toFixed(2)}  ranks [${ranks}]  ${question.question}`);
+  }
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: 'string', default: 'eval/corpus' },
+      golden: { type: 'string', default: 'eval/golden.json' },
+      config: { type: 'string' },
+      compare: { type: 'string' },
+      k: { type: 'string' },
+      'fail-on-regression': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false }
+    }
+  });
+
+  const ks = values.k ? values.k.split(',').map(Number).filter(k => Number.isInteger(k) && k > 0) : DEFAULT_KS;
+  if (ks.length === 0) throw new Error('--k needs a comma-separated list of positive integers');
+
+  const corpus = await loadCorpus(values.corpus);
+  const golden = parseGolden(await readFile(values.golden, 'utf8'));
+  const configs = [await loadConfig(values.config)];
+  if (values.compare) configs.push(await loadConfig(values.compare));
+  if (configs.length === 2 && configs[0].name === configs[1].name) {
+    configs[1] = { ...configs[1], name: `${configs[1].name} (2)` };
+  }
+
+  console.log(`${corpus.length} documents, ${golden.length} questions\n`);
+  const reports: EvaluationReport[] = [];
+  for (const config of configs) {
+    reports.push(await evaluate(corpus, golden, config, ks));
+  }
+
+  printTable(reports);
+  if (values.verbose) reports.forEach(printQuestions);
+
+  if (values['fail-on-regression'] && reports.length === 2) {
+    const regressions = metricsOf(reports[0])
+      .map(([metric, baseline], i) => ({ metric, baseline, candidate: metricsOf(reports[1])[i][1] }))
+      .filter(({ baseline, candidate }) => candidate < baseline - 1e-9);
+    if (regressions.length > 0) {
+      console.error(`\nRegression in ${regressions.map(r => r.metric).join(', ')}`);
+      process.exitCode = 1;
+    }
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,49 @@
+// Redaction checks: scan sample values with the built-in rules and compare what each rule finds
+// with what it should. Exits non-zero when a value is missed, cut short or wrongly flagged.
+//
+//   npm run redaction
+
+import { BUILT_IN_RULES, scanText } from '../src/lib/redaction';
+
+interface RedactionCheck {
+  text: string;
+  // Rule id and the exact value it should find; null when nothing should be found
+  expected: { ruleId: string; value: string } | null;
+}
+
+const CHECKS: RedactionCheck[] = [
+  { text: 'Call +33 6 12 34 56 78 today', expected: { ruleId: 'phone', value: '+33 6 12 34 56 78' } },
+  { text: 'Office: +44 (0)20 7946 0958', expected: { ruleId: 'phone', value: '+44 (0)20 7946 0958' } },
+  { text: 'Support line +1-555-123-4567.', expected: { ruleId: 'phone', value: '+1-555-123-4567' } },
+  { text: 'Mobile 06 12 34 56 78', expected: { ruleId: 'phone', value: '06 12 34 56 78' } },
+  { text: 'Desk (555) 123-4567', expected: { ruleId: 'phone', value: '(555) 123-4567' } },
+  { text: 'Signed on 15.01.2024 in Lyon', expected: null },
+  { text: 'Signed on 15-01-2024 in Lyon', expected: null },
+  { text: 'Signed on 01/15/2024 in Boston', expected: null },
+  { text: 'Released 2024-01-15', expected: null },
+  { text: 'Server at 192.168.100.200 is down', expected: null },
+  { text: 'amount;1234.5678;EUR', expected: null },
+  { text: 'Total 1234567.89', expected: null },
+  { text: 'Population 12.345.678', expected: null },
+  { text: 'Montant 1.234.567,89 €', expected: null },
+  { text: 'Order 12345678', expected: null },
+  { text: 'Contact jane.doe@example.com', expected: { ruleId: 'email', value: 'jane.doe@example.com' } },
+  { text: 'Card 4111 1111 1111 1111', expected: { ruleId: 'card', value: '4111 1111 1111 1111' } },
+  { text: 'IBAN DE89 3704 0044 0532 0130 00', expected: { ruleId: 'iban', value: 'DE89 3704 0044 0532 0130 00' } }
+];
+
+const main = () => {
+  let failures = 0;
+  for (const { text, expected } of CHECKS) {
+    const found = scanText(text, BUILT_IN_RULES).map(finding => `${finding.ruleId}: ${finding.value}`);
+    const wanted = expected ? [`${expected.ruleId}: ${expected.value}`] : [];
+    if (found.join('\n') === wanted.join('\n')) continue;
+    failures++;
+    console.error(`FAIL  ${JSON.stringify(text)}\n  expected [${wanted.join(', ')}]\n  found    [${found.join(', ')}]`);
+  }
+
+  console.log(`${CHECKS.length - failures}/${CHECKS.length} redaction checks passed`);
+  if (failures > 0) process.exitCode = 1;
+};
+
+main();
@@ -0,0 +1,220 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Language } from '../src/lib/analysis';
+import { chunkingOptionsError, DEFAULT_CHUNKING_OPTIONS } from '../src/lib/chunking';
+import { QueryOptions, RagEngine } from '../src/lib/core';
+import { LlmMessage } from '../src/lib/llm';
+import { RedactionAction, RedactionDecision, REDACTION_ACTION_LABELS } from '../src/lib/redaction';
+import { RetrievalScope } from '../src/lib/search';
+import { Document, DocumentMetadata } from '../src/types';
+import { OPENAPI_DOCUMENT } from './openapi';
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Large enough for a long document sent as JSON text
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Documents are listed without their text, chunks and vectors
+export interface DocumentSummary {
+  id: string;
+  title: string;
+  version: number;
+  size: number;
+  chunks: number;
+  uploadedAt: string;
+  fileName?: string;
+  collection?: string;
+  tags: string[];
+  language?: Language;
+  embeddingModel?: string;
+  embeddingError?: string;
+  redaction?: RedactionDecision[];
+}
+
+const summarize = (doc: Document): DocumentSummary => ({
+  id: doc.id,
+  title: doc.title,
+  version: doc.version,
+  size: doc.size,
+  chunks: doc.chunks.length,
+  uploadedAt: doc.uploadedAt.toISOString(),
+  fileName: doc.fileName,
+  collection: doc.collection,
+  tags: doc.tags,
+  language: doc.language,
+  embeddingModel: doc.embeddingModel,
+  embeddingError: doc.embeddingError,
+  redaction: doc.redaction
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON.');
+  }
+  if (!isObject(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  return body;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const isRedactionAction = (value: unknown): value is RedactionAction =>
+  typeof value === 'string' && Object.keys(REDACTION_ACTION_LABELS).includes(value);
+
+interface ParsedDocument {
+  title: string;
+  content: string;
+  metadata: DocumentMetadata;
+  redaction: Record<string, RedactionAction>;
+}
+
+const parseDocument = (body: Record<string, unknown>): ParsedDocument => {
+  const { title, content, fileName, collection, tags, chunking, redaction } = body;
+  if (typeof title !== 'string' || !title.trim()) throw new HttpError(400, '"title" must be a non-empty string.');
+  if (typeof content !== 'string' || !content.trim()) throw new HttpError(400, '"content" must be a non-empty string.');
+  if (fileName !== undefined && typeof fileName !== 'string') throw new HttpError(400, '"fileName" must be a string.');
+  if (collection !== undefined && typeof collection !== 'string') throw new HttpError(400, '"collection" must be a string.');
+  if (tags !== undefined && !isStringArray(tags)) throw new HttpError(400, '"tags" must be an array of strings.');
+  if (
+    chunking !== undefined &&
+    !(isObject(chunking) && Object.entries(chunking).every(([key, value]) => key === 'format'
+      ? value === 'csv' || value === 'tsv'
+      : ['chunkSize', 'overlap'].includes(key) && typeof value === 'number'))
+  ) {
+    throw new HttpError(400, '"chunking" may only hold "chunkSize" and "overlap" numbers and a "format" of "csv" or "tsv".');
+  }
+  const chunkingOptions = chunking as DocumentMetadata['chunking'];
+  const chunkingError = chunkingOptions && chunkingOptionsError({ ...DEFAULT_CHUNKING_OPTIONS, ...chunkingOptions });
+  if (chunkingError) throw new HttpError(400, `"chunking": ${chunkingError}`);
+  if (redaction !== undefined && !(isObject(redaction) && Object.values(redaction).every(isRedactionAction))) {
+    throw new HttpError(400, '"redaction" must map rule ids to "redact", "mask" or "keep".');
+  }
+
+  return {
+    title: title.trim(),
+    content,
+    metadata: { fileName, collection: collection || undefined, tags, chunking: chunkingOptions },
+    redaction: (redaction ?? {}) as Record<string, RedactionAction>
+  };
+};
+
+const parseQuery = (body: Record<string, unknown>): { question: string; options: QueryOptions } => {
+  const { question, history, scope } = body;
+  if (typeof question !== 'string' || !question.trim()) throw new HttpError(400, '"question" must be a non-empty string.');
+  if (
+    history !== undefined &&
+    !(Array.isArray(history) && history.every(m => isObject(m) && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'))
+  ) {
+    throw new HttpError(400, '"history" must be an array of { role: "user" | "assistant", content }.');
+  }
+  if (
+    scope !== undefined &&
+    !(isObject(scope) && Object.entries(scope).every(([key, value]) => ['collections', 'tags', 'documentIds'].includes(key) && isStringArray(value)))
+  ) {
+    throw new HttpError(400, '"scope" may only hold "collections", "tags" and "documentIds" string arrays.');
+  }
+
+  return {
+    question: question.trim(),
+    options: { history: history as LlmMessage[] | undefined, scope: scope as RetrievalScope | undefined }
+  };
+};
+
+// Server-sent events: "query", "sources", any number of "token", then "done" or "error"
+const streamQuery = async (engine: RagEngine, req: IncomingMessage, res: ServerResponse) => {
+  const { question, options } = parseQuery(await readJson(req));
+  const controller = new AbortController();
+  // Stop generating once the client goes away
+  res.on('close', () => controller.abort());
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  try {
+    for await (const { type, ...data } of engine.stream(question, { ...options, signal: controller.signal })) {
+      send(type, data);
+    }
+    send('done', {});
+  } catch (error) {
+    if (!controller.signal.aborted) send('error', { error: error instanceof Error ? error.message : String(error) });
+  }
+  res.end();
+};
+
+// Route requests to the engine; `persist` is called after every change to the knowledge base
+export const createRequestHandler = (engine: RagEngine, persist: () => Promise<void>) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    const method = req.method ?? 'GET';
+
+    try {
+      if (path === '/openapi.json' && method === 'GET') {
+        return sendJson(res, 200, OPENAPI_DOCUMENT);
+      }
+
+      if (path === '/documents' && method === 'GET') {
+        return sendJson(res, 200, { documents: engine.listDocuments().map(summarize) });
+      }
+
+      if (path === '/documents' && method === 'POST') {
+        const { title, content, metadata, redaction } = parseDocument(await readJson(req));
+        const { status, document } = await engine.addDocument(title, content, metadata, redaction);
+        if (status !== 'duplicate') await persist();
+        return sendJson(res, status === 'duplicate' ? 200 : 201, { status, document: summarize(document) });
+      }
+
+      const documentPath = path.match(/^\/documents\/([^/]+)$/);
+      if (documentPath && method === 'DELETE') {
+        if (!engine.removeDocument(decodeURIComponent(documentPath[1]))) {
+          throw new HttpError(404, 'No document with this id.');
+        }
+        await persist();
+        res.writeHead(204).end();
+        return;
+      }
+
+      if (path === '/query' && method === 'POST') {
+        const { question, options } = parseQuery(await readJson(req));
+        return sendJson(res, 200, await engine.query(question, options));
+      }
+
+      if (path === '/query/stream' && method === 'POST') {
+        return await streamQuery(engine, req, res);
+      }
+
+      const known = ['/openapi.json', '/documents', '/query', '/query/stream'].includes(path) || documentPath;
+      throw known ? new HttpError(405, `${method} is not supported on ${path}.`) : new HttpError(404, 'Not found.');
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (!(error instanceof HttpError)) console.error(error);
+      sendJson(res, error instanceof HttpError ? error.status : 500, {
+        error: error instanceof Error ? error.message : 'Internal error'
+      });
+    }
+  };
@@ -0,0 +1,68 @@
+// Local REST API over the knowledge base, for scripts, bots and CI checks.
+//
+//   npm run server -- [--port 8787] [--host 127.0.0.1] [--data .rag-data/knowledge-base.json] [--config server.json]
+//
+// The config file holds partial { llm, retrieval, embedding } settings, as in the app's settings
+// panel, and redactionRules ({ id, label, pattern }) added to the built-in sensitive data rules.
+// API keys are read from RAG_LLM_API_KEY and RAG_EMBEDDING_API_KEY so they stay out of files.
+// See GET /openapi.json for the endpoints.
+
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { RagEngine, RagEngineSettings } from '../src/lib/core';
+import { DEFAULT_EMBEDDING_SETTINGS } from '../src/lib/embeddings';
+import { DEFAULT_LLM_SETTINGS } from '../src/lib/llm';
+import { DEFAULT_RETRIEVAL_SETTINGS } from '../src/lib/search';
+import { createRequestHandler } from './app';
+import { FileStore } from './store';
+
+const loadSettings = async (file: string | undefined): Promise<RagEngineSettings> => {
+  const overrides: Partial<{ [K in Exclude<keyof RagEngineSettings, 'redactionRules'>]: Partial<RagEngineSettings[K]> }> &
+    Pick<RagEngineSettings, 'redactionRules'> = file ? JSON.parse(await readFile(file, 'utf8')) : {};
+  return {
+    llm: { ...DEFAULT_LLM_SETTINGS, ...overrides.llm, apiKey: process.env.RAG_LLM_API_KEY ?? '' },
+    retrieval: { ...DEFAULT_RETRIEVAL_SETTINGS, ...overrides.retrieval },
+    embedding: { ...DEFAULT_EMBEDDING_SETTINGS, ...overrides.embedding, apiKey: process.env.RAG_EMBEDDING_API_KEY ?? '' },
+    redactionRules: overrides.redactionRules
+  };
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      data: { type: 'string', default: '.rag-data/knowledge-base.json' },
+      config: { type: 'string' }
+    }
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error('--port needs a port number');
+
+  const settings = await loadSettings(values.config);
+  const store = new FileStore(values.data);
+  const engine = new RagEngine(settings, await store.load());
+  // API keys are never written to the data file
+  const { provider, baseUrl, model } = settings.embedding;
+  const persist = () => store.save(engine.listDocuments(), { retrieval: settings.retrieval, embedding: { provider, baseUrl, model } });
+
+  // Documents embedded with another model (or not at all) are re-embedded before serving
+  const reembedded = await engine.embedStale();
+  if (reembedded > 0) {
+    console.log(`Embedded ${reembedded} document${reembedded !== 1 ? 's' : ''} with the configured model`);
+    await persist();
+  }
+
+  const server = createServer(createRequestHandler(engine, persist));
+  server.listen(port, values.host, () => {
+    console.log(`${engine.listDocuments().length} documents loaded from ${store.path}`);
+    console.log(`Listening on http://${values.host}:${port} (LLM: ${settings.llm.provider}, embeddings: ${settings.embedding.provider})`);
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
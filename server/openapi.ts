@@ -0,0 +1,235 @@
+// OpenAPI description of the REST API, served at GET /openapi.json
+
+import { MIN_CHUNK_SIZE } from '../src/lib/chunking';
+
+const error = {
+  description: 'Error',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+};
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'RAG Chatbot API',
+    version: '1.0.0',
+    description: 'Add documents to the knowledge base and ask questions answered from them, with cited sources.'
+  },
+  paths: {
+    '/documents': {
+      get: {
+        summary: 'List documents',
+        responses: {
+          200: {
+            description: 'All documents, without their text',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { documents: { type: 'array', items: { $ref: '#/components/schemas/DocumentSummary' } } },
+                  required: ['documents']
+                }
+              }
+            }
+          }
+        }
+      },
+      post: {
+        summary: 'Add a document',
+        description:
+          'Chunks, indexes and embeds the text. Content already in the knowledge base is reported as a duplicate ' +
+          'and not added again; a document with the same title (ignoring case) gets a new version.',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewDocument' } } }
+        },
+        responses: {
+          201: { description: 'Added, or stored as a new version', content: { 'application/json': { schema: { $ref: '#/components/schemas/AddDocumentResult' } } } },
+          200: { description: 'Duplicate of an existing document', content: { 'application/json': { schema: { $ref: '#/components/schemas/AddDocumentResult' } } } },
+          400: error,
+          413: error
+        }
+      }
+    },
+    '/documents/{id}': {
+      delete: {
+        summary: 'Delete a document with its version history',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          204: { description: 'Deleted' },
+          404: error
+        }
+      }
+    },
+    '/query': {
+      post: {
+        summary: 'Answer a question',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Query' } } }
+        },
+        responses: {
+          200: { description: 'Answer with its sources', content: { 'application/json': { schema: { $ref: '#/components/schemas/QueryResult' } } } },
+          400: error
+        }
+      }
+    },
+    '/query/stream': {
+      post: {
+        summary: 'Answer a question, streaming tokens as server-sent events',
+        description:
+          'Events, in order: `query` ({ searchQuery }), `sources` ({ sources }), any number of `token` ({ text }), ' +
+          'then `done` ({}) or `error` ({ error }). Closing the connection stops generation.',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Query' } } }
+        },
+        responses: {
+          200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          400: error
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This description',
+        responses: { 200: { description: 'OpenAPI document', content: { 'application/json': {} } } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Error: {
+        type: 'object',
+        properties: { error: { type: 'string' } },
+        required: ['error']
+      },
+      NewDocument: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          content: { type: 'string', description: 'Plain text, Markdown, JSON, CSV or TSV' },
+          fileName: { type: 'string', description: 'Original file name' },
+          collection: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          chunking: {
+            type: 'object',
+            properties: {
+              chunkSize: { type: 'integer', minimum: MIN_CHUNK_SIZE, description: 'Maximum chunk length in characters' },
+              overlap: { type: 'integer', minimum: 0, description: 'Characters repeated at the start of the next chunk; less than the chunk size' },
+              format: { type: 'string', enum: ['csv', 'tsv'], description: 'Chunk the content as a table, by whole rows' }
+            }
+          },
+          redaction: {
+            type: 'object',
+            description: 'What to do with the sensitive data each rule finds, by rule id (token, apiKey, iban, card, email, phone or a configured rule). Rules left out use their default: secrets and account numbers are redacted, contact details masked.',
+            additionalProperties: { type: 'string', enum: ['redact', 'mask', 'keep'] }
+          }
+        },
+        required: ['title', 'content']
+      },
+      DocumentSummary: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          version: { type: 'integer' },
+          size: { type: 'integer', description: 'Length of the text in characters' },
+          chunks: { type: 'integer' },
+          uploadedAt: { type: 'string', format: 'date-time' },
+          fileName: { type: 'string' },
+          collection: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          language: { type: 'string', enum: ['en', 'fr', 'und'], description: 'Detected language; "und" when undetermined' },
+          embeddingModel: { type: 'string' },
+          embeddingError: { type: 'string', description: 'Set when embedding failed; keyword search still works' },
+          redaction: {
+            type: 'array',
+            description: 'What was done with the sensitive data found when the content was added, counted per rule',
+            items: {
+              type: 'object',
+              properties: {
+                ruleId: { type: 'string' },
+                label: { type: 'string' },
+                action: { type: 'string', enum: ['redact', 'mask', 'keep'] },
+                count: { type: 'integer' }
+              },
+              required: ['ruleId', 'label', 'action', 'count']
+            }
+          }
+        },
+        required: ['id', 'title', 'version', 'size', 'chunks', 'uploadedAt', 'tags']
+      },
+      AddDocumentResult: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['added', 'updated', 'duplicate'] },
+          document: { $ref: '#/components/schemas/DocumentSummary' }
+        },
+        required: ['status', 'document']
+      },
+      Query: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          history: {
+            type: 'array',
+            description: 'Earlier turns, used to resolve follow-up questions',
+            items: {
+              type: 'object',
+              properties: {
+                role: { type: 'string', enum: ['user', 'assistant'] },
+                content: { type: 'string' }
+              },
+              required: ['role', 'content']
+            }
+          },
+          scope: {
+            type: 'object',
+            description: 'Limit retrieval to documents in one of the collections, with one of the tags, or listed by id. A list given empty matches nothing.',
+            properties: {
+              collections: { type: 'array', items: { type: 'string' } },
+              tags: { type: 'array', items: { type: 'string' } },
+              documentIds: { type: 'array', items: { type: 'string' } }
+            }
+          }
+        },
+        required: ['question']
+      },
+      Source: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Citation number, referenced as [id] in the answer' },
+          docId: { type: 'string' },
+          version: { type: 'integer' },
+          chunkIndex: { type: 'integer' },
+          start: { type: 'integer', description: 'Offset of the chunk in the document text' },
+          end: { type: 'integer' },
+          title: { type: 'string' },
+          content: { type: 'string' },
+          relevance: { type: 'number' },
+          headingPath: { type: 'array', items: { type: 'string' } },
+          page: { type: 'integer' },
+          rows: {
+            type: 'object',
+            description: 'Spreadsheet rows of a CSV or TSV source, counted with the header as row 1',
+            properties: {
+              first: { type: 'integer' },
+              last: { type: 'integer' }
+            },
+            required: ['first', 'last']
+          }
+        },
+        required: ['id', 'docId', 'chunkIndex', 'start', 'end', 'title', 'content', 'relevance']
+      },
+      QueryResult: {
+        type: 'object',
+        properties: {
+          answer: { type: 'string' },
+          searchQuery: { type: 'string', description: 'The question rewritten as a standalone search query' },
+          sources: { type: 'array', items: { $ref: '#/components/schemas/Source' } }
+        },
+        required: ['answer', 'searchQuery', 'sources']
+      }
+    }
+  }
+};
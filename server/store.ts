@@ -0,0 +1,39 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+// Imported by file, as the module index also pulls in browser download helpers
+import { createKnowledgeBaseExport, parseKnowledgeBaseBundle } from '../src/lib/transfer/knowledgeBase';
+import { BundleSettings } from '../src/lib/transfer/types';
+import { Document } from '../src/types';
+
+// Keeps the knowledge base in one file, in the same bundle format the app exports and imports,
+// so the file can be loaded into the app and vice versa
+export class FileStore {
+  // Writes are chained so they land in the order they were requested
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async load(): Promise<Document[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return (await parseKnowledgeBaseBundle(text)).documents;
+  }
+
+  save(documents: Document[], settings: BundleSettings): Promise<void> {
+    const { content } = createKnowledgeBaseExport(documents, settings);
+    const write = async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      // Write next to the file and rename, so a crash never leaves half a knowledge base behind
+      const temporary = `${this.path}.tmp`;
+      await writeFile(temporary, content, 'utf8');
+      await rename(temporary, this.path);
+    };
+    this.pending = this.pending.then(write, write);
+    return this.pending;
+  }
+}
@@ -1,13 +1,88 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { useRAG } from './hooks/useRAG';
 import ChatMessage from './components/ChatMessage';
 import DocumentPanel from './components/DocumentPanel';
 import ChatInput from './components/ChatInput';
-import { MessageSquare, Sparkles } from 'lucide-react';
+import SettingsPanel from './components/SettingsPanel';
+import ConversationList from './components/ConversationList';
+import ScopePicker from './components/ScopePicker';
+import DocumentViewer from './components/DocumentViewer';
+import FeedbackReview from './components/FeedbackReview';
+import RetrievalInspector from './components/RetrievalInspector';
+import { Source } from './types';
+import { downloadFile } from './lib/transfer';
+import { MessageSquare, Settings, Sparkles, ThumbsDown } from 'lucide-react';
 
 function App() {
-  const { documents, messages, isLoading, addDocument, deleteDocument, sendMessage } = useRAG();
+  const {
+    documents,
+    messages,
+    conversations,
+    activeConversation,
+    isLoading,
+    llmSettings,
+    updateLlmSettings,
+    retrievalSettings,
+    updateRetrievalSettings,
+    embeddingSettings,
+    updateEmbeddingSettings,
+    redactionRules,
+    customRedactionRules,
+    updateCustomRedactionRules,
+    ingestions,
+    extractDocument,
+    addDocument,
+    rollbackDocument,
+    cancelIngestion,
+    exportKnowledgeBase,
+    importKnowledgeBase,
+    exportConversation,
+    downvotedAnswers,
+    rateMessage,
+    judgeSource,
+    inspectRetrieval,
+    deleteDocument,
+    updateDocumentMetadata,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+    switchConversation,
+    setConversationScope,
+    sendMessage,
+    regenerateMessage,
+    selectAnswerVariant,
+    editAndResend,
+    stopGeneration
+  } = useRAG();
   const [isPanelOpen, setIsPanelOpen] = useState(true);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [viewer, setViewer] = useState<{
+    docId: string;
+    title: string;
+    highlight?: { start: number; end: number };
+    version?: number;
+    query?: string;
+  } | null>(null);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [inspectedMessageId, setInspectedMessageId] = useState<string | null>(null);
+
+  const openDocument = (docId: string, options?: { highlight?: { start: number; end: number }; query?: string }) => {
+    const doc = documents.find(d => d.id === docId);
+    if (doc) setViewer({ docId, title: doc.title, ...options });
+  };
+
+  const openSource = (source: Source) => setViewer({
+    docId: source.docId,
+    title: source.title,
+    highlight: { start: source.start, end: source.end },
+    version: source.version
+  });
+
+  // Inspect an answer with the query it searched for, or else the question that prompted it
+  const inspectedIndex = messages.findIndex(message => message.id === inspectedMessageId);
+  const inspectedMessage = inspectedIndex >= 0 ? messages[inspectedIndex] : null;
+  const inspectedQuery = inspectedMessage?.searchQuery ??
+    messages.slice(0, inspectedIndex).reverse().find(message => message.sender === 'user')?.content ?? '';
 
   return (
     <div className="h-screen bg-gradient-to-br from-slate-50 to-blue-50 overflow-hidden">
@@ -16,8 +91,17 @@ function App() {
         {isPanelOpen && (
           <DocumentPanel
             documents={documents}
+            ingestions={ingestions}
+            onExtract={extractDocument}
             onUpload={addDocument}
             onDelete={deleteDocument}
+            onRollback={rollbackDocument}
+            onCancelIngestion={cancelIngestion}
+            onExport={() => downloadFile(exportKnowledgeBase())}
+            onImport={importKnowledgeBase}
+            onUpdateMetadata={updateDocumentMetadata}
+            redactionRules={redactionRules}
+            onOpenDocument={openDocument}
             isOpen={isPanelOpen}
             onToggle={() => setIsPanelOpen(!isPanelOpen)}
           />
@@ -26,13 +110,36 @@ function App() {
         {!isPanelOpen && (
           <DocumentPanel
             documents={documents}
+            ingestions={ingestions}
+            onExtract={extractDocument}
             onUpload={addDocument}
             onDelete={deleteDocument}
+            onRollback={rollbackDocument}
+            onCancelIngestion={cancelIngestion}
+            onExport={() => downloadFile(exportKnowledgeBase())}
+            onImport={importKnowledgeBase}
+            onUpdateMetadata={updateDocumentMetadata}
+            redactionRules={redactionRules}
+            onOpenDocument={openDocument}
             isOpen={isPanelOpen}
             onToggle={() => setIsPanelOpen(!isPanelOpen)}
           />
         )}
 
+        {/* Conversation History */}
+        <ConversationList
+          conversations={conversations}
+          activeConversationId={activeConversation?.id ?? null}
+          onCreate={createConversation}
+          onSelect={switchConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+          onExport={(id, format) => {
+            const file = exportConversation(id, format);
+            if (file) downloadFile(file);
+          }}
+        />
+
         {/* Main Chat Area */}
         <div className="flex-1 flex flex-col bg-white">
           {/* Header */}
@@ -49,13 +156,34 @@ function App() {
                   Ask questions about your uploaded documents
                 </p>
               </div>
-              <div className="text-right">
-                <div className="text-sm text-blue-100">
-                  {documents.length} document{documents.length !== 1 ? 's' : ''} loaded
-                </div>
-                <div className="text-xs text-blue-200">
-                  {documents.reduce((acc, doc) => acc + doc.chunks.length, 0)} searchable chunks
+              <div className="flex items-center gap-4">
+                <div className="text-right">
+                  <div className="text-sm text-blue-100">
+                    {documents.length} document{documents.length !== 1 ? 's' : ''} loaded
+                  </div>
+                  <div className="text-xs text-blue-200">
+                    {documents.reduce((acc, doc) => acc + doc.chunks.length, 0)} searchable chunks
+                  </div>
                 </div>
+                <button
+                  onClick={() => setIsReviewOpen(true)}
+                  className="relative p-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors"
+                  title="Review downvoted answers"
+                >
+                  <ThumbsDown className="w-5 h-5" />
+                  {downvotedAnswers.length > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 text-xs font-semibold bg-red-500 text-white rounded-full flex items-center justify-center">
+                      {downvotedAnswers.length}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setIsSettingsOpen(true)}
+                  className="p-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors"
+                  title={`Model: ${llmSettings.provider === 'mock' ? 'offline mock' : llmSettings.model}`}
+                >
+                  <Settings className="w-5 h-5" />
+                </button>
               </div>
             </div>
           </div>
@@ -87,43 +215,93 @@ function App() {
             ) : (
               <div>
                 {messages.map((message) => (
-                  <ChatMessage key={message.id} message={message} />
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    onOpenSource={openSource}
+                    onRate={(rating) => rateMessage(message.id, rating)}
+                    onJudgeSource={(sourceId, judgement) => judgeSource(message.id, sourceId, judgement)}
+                    onInspect={() => setInspectedMessageId(message.id)}
+                    onRegenerate={isLoading ? undefined : () => regenerateMessage(message.id)}
+                    onSelectVariant={(index) => selectAnswerVariant(message.id, index)}
+                    onEdit={isLoading ? undefined : (content) => editAndResend(message.id, content)}
+                  />
                 ))}
-                {isLoading && (
-                  <div className="p-6 bg-white border-b border-slate-100">
-                    <div className="flex gap-4">
-                      <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-600 to-blue-600 flex items-center justify-center">
-                        <Sparkles className="w-4 h-4 text-white animate-pulse" />
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
-                          <span className="font-semibold text-slate-900">Assistant</span>
-                          <span className="text-xs text-slate-500">Thinking...</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <div className="flex space-x-1">
-                            <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
-                            <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                            <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                          </div>
-                          <span className="text-sm text-slate-500">Searching documents and generating response...</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
               </div>
             )}
           </div>
 
+          {documents.length > 0 && (
+            <div className="px-4 pt-3 border-t border-slate-200">
+              <ScopePicker
+                documents={documents}
+                scope={activeConversation?.scope}
+                onChange={setConversationScope}
+              />
+            </div>
+          )}
+
           {/* Chat Input */}
           <ChatInput 
-            onSendMessage={sendMessage} 
+            onSendMessage={sendMessage}
+            onStop={stopGeneration}
             isLoading={isLoading}
             disabled={documents.length === 0}
           />
         </div>
       </div>
+
+      {inspectedMessage && (
+        <RetrievalInspector
+          key={inspectedMessage.id}
+          initialQuery={inspectedQuery}
+          scope={activeConversation?.scope}
+          settings={retrievalSettings}
+          cited={inspectedMessage.sources ?? []}
+          onChangeSettings={updateRetrievalSettings}
+          onInspect={inspectRetrieval}
+          onOpenSource={openSource}
+          onClose={() => setInspectedMessageId(null)}
+        />
+      )}
+
+      {viewer && (
+        <DocumentViewer
+          key={`${viewer.docId}:${viewer.highlight?.start}:${viewer.query}`}
+          document={documents.find(doc => doc.id === viewer.docId)}
+          title={viewer.title}
+          highlight={viewer.highlight}
+          version={viewer.version}
+          initialQuery={viewer.query}
+          onClose={() => setViewer(null)}
+        />
+      )}
+
+      {isReviewOpen && (
+        <FeedbackReview
+          answers={downvotedAnswers}
+          onOpenConversation={(id) => {
+            switchConversation(id);
+            setIsReviewOpen(false);
+          }}
+          onClearRating={(id) => rateMessage(id, undefined)}
+          onClose={() => setIsReviewOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={llmSettings}
+          retrievalSettings={retrievalSettings}
+          embeddingSettings={embeddingSettings}
+          onSave={updateLlmSettings}
+          onSaveRetrieval={updateRetrievalSettings}
+          onSaveEmbedding={updateEmbeddingSettings}
+          redactionRules={customRedactionRules}
+          onSaveRedactionRules={updateCustomRedactionRules}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 }
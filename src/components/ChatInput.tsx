@@ -1,13 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
+  onStop: () => void;
   isLoading: boolean;
   disabled?: boolean;
 }
 
-export default function ChatInput({ onSendMessage, isLoading, disabled }: ChatInputProps) {
+export default function ChatInput({ onSendMessage, onStop, isLoading, disabled }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -47,18 +48,25 @@ export default function ChatInput({ onSendMessage, isLoading, disabled }: ChatIn
             disabled={disabled || isLoading}
             rows={1}
           />
-          {message.trim() && (
+          {isLoading ? (
+            <div className="absolute right-2 bottom-2">
+              <button
+                type="button"
+                onClick={onStop}
+                title="Stop generating"
+                className="p-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-all duration-200 flex items-center justify-center"
+              >
+                <Square className="w-4 h-4 fill-current" />
+              </button>
+            </div>
+          ) : message.trim() && (
             <div className="absolute right-2 bottom-2">
               <button
                 type="submit"
-                disabled={isLoading || disabled || !message.trim()}
+                disabled={disabled || !message.trim()}
                 className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center"
               >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <Send className="w-4 h-4" />
-                )}
+                <Send className="w-4 h-4" />
               </button>
             </div>
           )}
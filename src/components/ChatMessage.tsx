@@ -1,24 +1,66 @@
-import React from 'react';
-import { Bot, User, ExternalLink } from 'lucide-react';
-
-interface Source {
-  title: string;
-  content: string;
-  relevance: number;
-}
+import { useState } from 'react';
+import {
+  Bot, User, ExternalLink, Search, ThumbsUp, ThumbsDown, Check, X, SlidersHorizontal, Copy, RefreshCw, Pencil,
+  ChevronLeft, ChevronRight
+} from 'lucide-react';
+import { ChatMessage as ChatMessageType, Source } from '../types';
+import { formatRowRange } from '../lib/chunking';
+import { useClipboard } from '../hooks/useClipboard';
+import MarkdownView from './MarkdownView';
 
 interface ChatMessageProps {
-  message: {
-    id: string;
-    content: string;
-    sender: 'user' | 'assistant';
-    timestamp: Date;
-    sources?: Source[];
-  };
+  message: ChatMessageType;
+  onOpenSource?: (source: Source) => void;
+  onRate?: (rating: ChatMessageType['rating']) => void;
+  onJudgeSource?: (sourceId: number, judgement: Source['judgement']) => void;
+  onInspect?: () => void;
+  onRegenerate?: () => void;
+  onSelectVariant?: (index: number) => void;
+  // Resend an edited question, branching the conversation
+  onEdit?: (content: string) => void;
 }
 
-export default function ChatMessage({ message }: ChatMessageProps) {
+const ACTION_CLASS = 'p-1 rounded transition-colors text-slate-400 hover:text-slate-600 hover:bg-slate-100';
+
+export default function ChatMessage({
+  message,
+  onOpenSource,
+  onRate,
+  onJudgeSource,
+  onInspect,
+  onRegenerate,
+  onSelectVariant,
+  onEdit
+}: ChatMessageProps) {
   const isUser = message.sender === 'user';
+  const [editText, setEditText] = useState<string | null>(null);
+  const { copied, copy } = useClipboard();
+  const variantCount = message.variants?.length ?? 0;
+  const activeVariant = message.activeVariant ?? 0;
+
+  const submitEdit = () => {
+    if (editText?.trim() && onEdit) onEdit(editText.trim());
+    setEditText(null);
+  };
+
+  // Turn [n] markers that match a source into clickable citations
+  const renderContent = (content: string) => {
+    if (!message.sources) return content;
+    return content.split(/(\[\d+\])/g).map((part, index) => {
+      const source = message.sources!.find(s => `[${s.id}]` === part);
+      if (!source) return part;
+      return (
+        <button
+          key={index}
+          onClick={() => onOpenSource?.(source)}
+          title={`${source.title}${source.page ? `, page ${source.page}` : ''}`}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 text-xs font-semibold text-blue-700 bg-blue-100 hover:bg-blue-200 rounded align-super transition-colors"
+        >
+          {source.id}
+        </button>
+      );
+    });
+  };
 
   return (
     <div className={`flex gap-4 p-6 ${isUser ? 'bg-slate-50' : 'bg-white'} border-b border-slate-100`}>
@@ -38,13 +80,146 @@ export default function ChatMessage({ message }: ChatMessageProps) {
           <span className="text-xs text-slate-500">
             {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </span>
+          {message.isStreaming && (
+            <span className="text-xs text-slate-500">Generating...</span>
+          )}
+          {message.stopped && (
+            <span className="text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">Stopped</span>
+          )}
         </div>
         
+        {message.searchQuery && (
+          <div className="mb-2 text-xs text-slate-500 flex items-center gap-1">
+            <Search className="w-3 h-3 flex-shrink-0" />
+            Searched for: <span className="italic text-slate-600">{message.searchQuery}</span>
+          </div>
+        )}
+
         <div className="prose prose-slate max-w-none">
-          <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">
-            {message.content}
-          </p>
+          {editText !== null ? (
+            <div>
+              <textarea
+                autoFocus
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  }
+                  if (e.key === 'Escape') setEditText(null);
+                }}
+                rows={Math.min(8, editText.split('\n').length + 1)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+              />
+              <div className="mt-1 flex items-center gap-2 text-xs">
+                <button
+                  onClick={submitEdit}
+                  disabled={!editText.trim()}
+                  className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Send in a new branch
+                </button>
+                <button onClick={() => setEditText(null)} className="px-2 py-1 text-slate-600 hover:underline">
+                  Cancel
+                </button>
+                <span className="text-slate-500">This conversation stays as it is.</span>
+              </div>
+            </div>
+          ) : message.isStreaming && !message.content ? (
+            <div className="flex items-center gap-2">
+              <div className="flex space-x-1">
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+              </div>
+              <span className="text-sm text-slate-500">
+                {message.sources ? 'Generating response...' : 'Searching documents...'}
+              </span>
+            </div>
+          ) : isUser ? (
+            <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">{message.content}</p>
+          ) : (
+            <>
+              <MarkdownView
+                content={message.content}
+                renderText={(start, end) => renderContent(message.content.slice(start, end))}
+              />
+              {message.isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-slate-400 animate-pulse" />
+              )}
+            </>
+          )}
         </div>
+
+        {isUser && onEdit && editText === null && (
+          <div className="mt-2 flex items-center gap-1">
+            <button onClick={() => setEditText(message.content)} className={ACTION_CLASS} title="Edit and resend">
+              <Pencil className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {!isUser && !message.isStreaming && (
+          <div className="mt-2 flex items-center gap-1">
+            {variantCount > 1 && onSelectVariant && (
+              <span className="flex items-center text-xs text-slate-500 mr-1">
+                <button
+                  onClick={() => onSelectVariant(activeVariant - 1)}
+                  disabled={activeVariant === 0}
+                  className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30"
+                  title="Previous answer"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="tabular-nums">{activeVariant + 1} / {variantCount}</span>
+                <button
+                  onClick={() => onSelectVariant(activeVariant + 1)}
+                  disabled={activeVariant === variantCount - 1}
+                  className="p-0.5 rounded hover:bg-slate-100 disabled:opacity-30"
+                  title="Next answer"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </span>
+            )}
+            <button onClick={() => copy(message.content)} className={ACTION_CLASS} title="Copy answer">
+              {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+            {onRegenerate && (
+              <button onClick={onRegenerate} className={ACTION_CLASS} title="Regenerate answer">
+                <RefreshCw className="w-4 h-4" />
+              </button>
+            )}
+            {onRate && (
+              <>
+                <button
+                  onClick={() => onRate(message.rating === 'up' ? undefined : 'up')}
+                  className={`p-1 rounded transition-colors ${
+                    message.rating === 'up' ? 'text-green-700 bg-green-100' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+                  }`}
+                  title="Good answer"
+                >
+                  <ThumbsUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onRate(message.rating === 'down' ? undefined : 'down')}
+                  className={`p-1 rounded transition-colors ${
+                    message.rating === 'down' ? 'text-red-700 bg-red-100' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+                  }`}
+                  title="Bad answer"
+                >
+                  <ThumbsDown className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            {onInspect && (
+              <button onClick={onInspect} className={ACTION_CLASS} title="Inspect retrieval">
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
         
         {message.sources && message.sources.length > 0 && (
           <div className="mt-4 pt-4 border-t border-slate-200">
@@ -53,17 +228,62 @@ export default function ChatMessage({ message }: ChatMessageProps) {
               Sources Used
             </h4>
             <div className="space-y-2">
-              {message.sources.map((source, index) => (
-                <div key={index} className="bg-slate-50 rounded-lg p-3 border border-slate-200">
-                  <div className="flex items-center justify-between mb-1">
-                    <span className="text-sm font-medium text-slate-800">{source.title}</span>
-                    <span className="text-xs text-slate-500 bg-slate-200 px-2 py-1 rounded-full">
-                      {Math.round(source.relevance * 100)}% match
-                    </span>
-                  </div>
-                  <p className="text-xs text-slate-600 line-clamp-2">
-                    {source.content.substring(0, 150)}...
-                  </p>
+              {message.sources.map((source) => (
+                <div key={source.id} className="relative">
+                  <button
+                    onClick={() => onOpenSource?.(source)}
+                    className={`block w-full text-left bg-slate-50 hover:bg-blue-50 rounded-lg p-3 border hover:border-blue-300 transition-colors ${
+                      source.judgement === 'relevant'
+                        ? 'border-green-300'
+                        : source.judgement === 'irrelevant' ? 'border-red-200 opacity-70' : 'border-slate-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-slate-800 flex items-center gap-2">
+                        <span className="inline-flex items-center justify-center w-5 h-5 text-xs font-semibold text-blue-700 bg-blue-100 rounded">
+                          {source.id}
+                        </span>
+                        {source.title}
+                      </span>
+                      <span className="text-xs text-slate-500 bg-slate-200 px-2 py-1 rounded-full">
+                        {Math.round(source.relevance * 100)}% match
+                      </span>
+                    </div>
+                    {(source.page || source.headingPath || source.rows) && (
+                      <div className="text-xs text-slate-500 mb-1">
+                        {[
+                          source.page && `Page ${source.page}`,
+                          source.rows && formatRowRange(source.rows),
+                          source.headingPath?.join(' › ')
+                        ].filter(Boolean).join(' • ')}
+                      </div>
+                    )}
+                    <p className={`text-xs text-slate-600 line-clamp-2 ${onJudgeSource ? 'pr-14' : ''}`}>
+                      {source.content.substring(0, 150)}...
+                    </p>
+                  </button>
+                  {onJudgeSource && !message.isStreaming && (
+                    <div className="absolute bottom-2 right-2 flex items-center gap-1">
+                      <button
+                        onClick={() => onJudgeSource(source.id, source.judgement === 'relevant' ? undefined : 'relevant')}
+                        className={`p-1 rounded transition-colors ${
+                          source.judgement === 'relevant' ? 'text-green-700 bg-green-100' : 'text-slate-400 hover:text-green-700 hover:bg-green-50'
+                        }`}
+                        title="Relevant"
+                      >
+                        <Check className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => onJudgeSource(source.id, source.judgement === 'irrelevant' ? undefined : 'irrelevant')}
+                        className={`p-1 rounded transition-colors ${
+                          source.judgement === 'irrelevant' ? 'text-red-700 bg-red-100' : 'text-slate-400 hover:text-red-700 hover:bg-red-50'
+                        }`}
+                        title="Not relevant"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
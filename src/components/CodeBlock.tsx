@@ -0,0 +1,55 @@
+import { ReactNode, useMemo } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { CodeToken, highlightCode } from '../lib/markdown';
+import { useClipboard } from '../hooks/useClipboard';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  // Rendered in place of the syntax colouring, e.g. code with search highlights
+  children?: ReactNode;
+}
+
+const TOKEN_CLASSES: Record<CodeToken['kind'], string> = {
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-slate-400 italic',
+  number: 'text-amber-300',
+  literal: 'text-sky-300'
+};
+
+export default function CodeBlock({ code, language, children }: CodeBlockProps) {
+  const { copied, copy } = useClipboard();
+  const tokens = useMemo(() => (children ? [] : highlightCode(code, language)), [code, language, children]);
+
+  const highlighted = () => {
+    const parts: ReactNode[] = [];
+    let position = 0;
+    for (const token of tokens) {
+      if (token.start > position) parts.push(code.slice(position, token.start));
+      parts.push(<span key={token.start} className={TOKEN_CLASSES[token.kind]}>{code.slice(token.start, token.end)}</span>);
+      position = token.end;
+    }
+    parts.push(code.slice(position));
+    return parts;
+  };
+
+  return (
+    <div className="my-2 rounded-lg bg-slate-900 text-slate-100 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-slate-400 border-b border-slate-700">
+        <span>{language ?? 'code'}</span>
+        <button
+          onClick={() => copy(code)}
+          className="flex items-center gap-1 hover:text-slate-100 transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs">
+        <code>{children ?? highlighted()}</code>
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X, Download, GitBranch } from 'lucide-react';
+import { Conversation } from '../types';
+import { ConversationExportFormat } from '../lib/transfer';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onCreate: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: ConversationExportFormat) => void;
+}
+
+export default function ConversationList({
+  conversations,
+  activeConversationId,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+  onExport
+}: ConversationListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const sorted = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const branchTitle = (conversation: Conversation) => {
+    if (!conversation.branchedFrom) return undefined;
+    const original = conversations.find(c => c.id === conversation.branchedFrom);
+    return original ? `Branched from "${original.title}"` : 'Branched from a deleted conversation';
+  };
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitEdit = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 bg-slate-50 border-r border-slate-200 flex flex-col h-full">
+      <div className="p-4 border-b border-slate-200">
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          New Chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.length === 0 ? (
+          <p className="text-xs text-slate-500 text-center p-4">No conversations yet</p>
+        ) : (
+          sorted.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+
+            if (editingId === conversation.id) {
+              return (
+                <div key={conversation.id} className="flex items-center gap-1 p-1">
+                  <input
+                    autoFocus
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitEdit();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button onClick={commitEdit} className="p-1 hover:bg-slate-200 rounded text-green-600">
+                    <Check className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1 hover:bg-slate-200 rounded text-slate-500">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            }
+
+            return (
+              <div key={conversation.id}>
+                <div
+                  onClick={() => onSelect(conversation.id)}
+                  className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+                    isActive ? 'bg-blue-100 text-blue-900' : 'hover:bg-slate-200 text-slate-700'
+                  }`}
+                >
+                  {conversation.branchedFrom ? (
+                    <GitBranch className="w-4 h-4 flex-shrink-0" />
+                  ) : (
+                    <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                  )}
+                  <span className="flex-1 min-w-0 text-sm truncate" title={branchTitle(conversation)}>{conversation.title}</span>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEditing(conversation);
+                      }}
+                      className="p-1 hover:bg-white/60 rounded"
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(conversation.id);
+                      }}
+                      className="p-1 hover:bg-red-100 rounded text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExportingId(exportingId === conversation.id ? null : conversation.id);
+                      }}
+                      className="p-1 hover:bg-white/60 rounded"
+                      title="Export"
+                    >
+                      <Download className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                {exportingId === conversation.id && (
+                  <div className="flex items-center gap-1 px-3 pb-1 text-xs text-slate-600">
+                    Export as
+                    {(['markdown', 'json'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => {
+                          onExport(conversation.id, format);
+                          setExportingId(null);
+                        }}
+                        className="px-1.5 py-0.5 bg-white border border-slate-300 rounded hover:bg-slate-100"
+                      >
+                        {format === 'markdown' ? 'Markdown' : 'JSON'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
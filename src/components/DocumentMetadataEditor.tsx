@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Folder, Tag, X } from 'lucide-react';
+import { Document } from '../types';
+
+interface DocumentMetadataEditorProps {
+  document: Document;
+  collections: string[];
+  onChange: (metadata: Pick<Document, 'collection' | 'tags'>) => void;
+}
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+export default function DocumentMetadataEditor({ document, collections, onChange }: DocumentMetadataEditorProps) {
+  const [collection, setCollection] = useState(document.collection ?? '');
+  const [newTag, setNewTag] = useState('');
+
+  const commitCollection = () => {
+    const value = collection.trim() || undefined;
+    if (value !== document.collection) {
+      onChange({ collection: value, tags: document.tags });
+    }
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !document.tags.includes(tag)) {
+      onChange({ collection: document.collection, tags: [...document.tags, tag] });
+    }
+    setNewTag('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange({ collection: document.collection, tags: document.tags.filter(t => t !== tag) });
+  };
+
+  const listId = `collections-${document.id}`;
+
+  return (
+    <div className="space-y-2 mb-2">
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <Folder className="w-3 h-3 flex-shrink-0" />
+        <input
+          type="text"
+          list={listId}
+          value={collection}
+          onChange={(e) => setCollection(e.target.value)}
+          onBlur={commitCollection}
+          onKeyDown={(e) => e.key === 'Enter' && commitCollection()}
+          placeholder="Collection (e.g. HR policies)"
+          className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <datalist id={listId}>
+          {collections.map(c => <option key={c} value={c} />)}
+        </datalist>
+      </label>
+
+      <div className="flex items-center gap-1 flex-wrap text-xs">
+        <Tag className="w-3 h-3 text-slate-600 flex-shrink-0" />
+        {document.tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 px-2 py-0.5 bg-purple-50 text-purple-800 border border-purple-200 rounded-full">
+            #{tag}
+            <button onClick={() => removeTag(tag)} className="hover:text-purple-950">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          placeholder="Add tag"
+          className="w-20 px-2 py-0.5 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,52 +1,213 @@
-import React, { useState } from 'react';
-import { FileText, Upload, Trash2, ChevronRight, ChevronDown, X } from 'lucide-react';
-
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  chunks: string[];
-  uploadedAt: Date;
-  size: number;
-}
+import React, { useMemo, useState } from 'react';
+import { FileText, Upload, Trash2, ChevronRight, ChevronDown, X, AlertTriangle, Loader2, History, RotateCcw, CheckCircle, Download, FileUp, Search, BookOpen, FolderUp } from 'lucide-react';
+import { AddDocumentResult, Document, DocumentMetadata, IngestionStatus } from '../types';
+import { DiffStats } from '../lib/versioning';
+import { ExtractedDocument, SUPPORTED_EXTENSIONS } from '../lib/extraction';
+import { CancelledError } from '../lib/worker';
+import { ImportMode, ImportResult } from '../lib/transfer';
+import { ChunkingOptions, DEFAULT_CHUNKING_OPTIONS, MIN_CHUNK_SIZE } from '../lib/chunking';
+import { findInDocuments, MIN_FIND_LENGTH } from '../lib/search';
+import { LANGUAGE_NAMES } from '../lib/analysis';
+import { entriesFromDataTransfer, entriesFromFiles, ExistingFileRule, isArchive, UploadEntry } from '../lib/upload';
+import { applyRedactions, formatDecisions, groupFindings, RedactionAction, RedactionRule, scanText } from '../lib/redaction';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import DocumentMetadataEditor from './DocumentMetadataEditor';
+import HighlightedText from './HighlightedText';
+import RedactionReport from './RedactionReport';
+import UploadQueue from './UploadQueue';
 
 interface DocumentPanelProps {
   documents: Document[];
-  onUpload: (title: string, content: string) => void;
+  ingestions: IngestionStatus[];
+  onExtract: (file: File) => Promise<ExtractedDocument>;
+  onUpload: (title: string, content: string, metadata?: DocumentMetadata) => Promise<AddDocumentResult>;
   onDelete: (id: string) => void;
+  onRollback: (id: string, version: number) => void;
+  onCancelIngestion: (id: string) => void;
+  onExport: () => void;
+  onImport: (bundle: string, mode: ImportMode) => Promise<ImportResult>;
+  onUpdateMetadata: (id: string, metadata: Pick<Document, 'collection' | 'tags'>) => void;
+  // Patterns for sensitive data, checked before a document is added
+  redactionRules: RedactionRule[];
+  // Open the full-text viewer, optionally at a chunk with a search already running
+  onOpenDocument: (id: string, options?: { highlight?: { start: number; end: number }; query?: string }) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
-export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, onToggle }: DocumentPanelProps) {
+export default function DocumentPanel({ documents, ingestions, onExtract, onUpload, onDelete, onRollback, onCancelIngestion, onExport, onImport, onUpdateMetadata, redactionRules, onOpenDocument, isOpen, onToggle }: DocumentPanelProps) {
   const [expandedDoc, setExpandedDoc] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [newDocTitle, setNewDocTitle] = useState('');
   const [newDocContent, setNewDocContent] = useState('');
+  const [extracted, setExtracted] = useState<ExtractedDocument | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadNotice, setUploadNotice] = useState<{ kind: 'duplicate' | 'updated'; text: string } | null>(null);
+  // Bundle waiting for the user to choose between merging and replacing
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; text: string } | null>(null);
+  const [chunking, setChunking] = useState<ChunkingOptions>(DEFAULT_CHUNKING_OPTIONS);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [existingRule, setExistingRule] = useState<ExistingFileRule>('skip');
+  const [isDragging, setIsDragging] = useState(false);
+  // Choices in the sensitive data report; rules not listed use their default
+  const [redactionActions, setRedactionActions] = useState<Record<string, RedactionAction>>({});
+  const uploadQueue = useUploadQueue({ documents, redactionRules, onExtract, onUpload });
+
+  const findingGroups = useMemo(
+    () => isUploading ? groupFindings(scanText(newDocContent, redactionRules), redactionRules) : [],
+    [isUploading, newDocContent, redactionRules]
+  );
+
+  // A single file opens the form to review its title and text; anything more goes through the queue
+  const handleEntries = (entries: UploadEntry[]) => {
+    if (entries.length === 0) return;
+    const [first] = entries;
+    if (entries.length === 1 && first.path === first.file.name && !isArchive(first.path)) {
+      reviewFile(first.file);
+    } else {
+      setUploadError(null);
+      setUploadNotice(null);
+      uploadQueue.enqueue(entries, { existing: existingRule, chunking });
+    }
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const entries = entriesFromFiles(Array.from(event.target.files ?? []));
+    // Allow picking the same files again after an error
+    event.target.value = '';
+    handleEntries(entries);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Moving between children fires leave events too; only leaving the panel counts
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      handleEntries(await entriesFromDataTransfer(event.dataTransfer));
+    } catch (error) {
+      setUploadError(`Could not read the dropped files: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const reviewFile = async (file: File) => {
+    setUploadError(null);
+    setUploadNotice(null);
+    setIsExtracting(true);
+    try {
+      const result = await onExtract(file);
+      setExtracted(result);
+      setNewDocTitle(result.title);
+      setNewDocContent(result.content);
+      setIsUploading(true);
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      setUploadError(`${file.name}: ${error instanceof Error ? error.message : 'Could not read file'}`);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setNewDocTitle(file.name.replace(/\.[^/.]+$/, ''));
-        setNewDocContent(content);
-        setIsUploading(true);
-      };
-      reader.readAsText(file);
+    event.target.value = '';
+    if (!file) return;
+    setUploadError(null);
+    setUploadNotice(null);
+    setPendingImport({ fileName: file.name, text: await file.text() });
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const { fileName, text } = pendingImport;
+    setPendingImport(null);
+    try {
+      const { added, skipped } = await onImport(text, mode);
+      setUploadNotice({
+        kind: 'updated',
+        text: `Imported ${added} document${added !== 1 ? 's' : ''} from ${fileName}${skipped > 0 ? `, skipped ${skipped} already present` : ''}.`
+      });
+    } catch (error) {
+      setUploadError(`${fileName}: ${error instanceof Error ? error.message : 'Could not import knowledge base'}`);
     }
   };
 
-  const handleUpload = () => {
+  const handleUpload = async () => {
     if (newDocTitle.trim() && newDocContent.trim()) {
-      onUpload(newDocTitle.trim(), newDocContent.trim());
+      // Page offsets only hold while the extracted text is untouched
+      const unchanged = extracted !== null && extracted.content === newDocContent;
+      const text = unchanged ? newDocContent : newDocContent.trim();
+      // Sensitive values are replaced before the text goes anywhere else
+      const redacted = applyRedactions(
+        text,
+        groupFindings(scanText(text, redactionRules), redactionRules),
+        redactionActions,
+        unchanged ? extracted.pages : undefined
+      );
+      const upload = onUpload(newDocTitle.trim(), redacted.content, {
+        fileName: extracted?.fileName,
+        pages: redacted.pages,
+        chunking: { ...chunking, format: extracted?.format },
+        redaction: redacted.decisions.length > 0 ? redacted.decisions : undefined
+      });
+      // Close the form right away; progress shows in the ingestion list
       setNewDocTitle('');
       setNewDocContent('');
+      setExtracted(null);
+      setRedactionActions({});
       setIsUploading(false);
+
+      let result: AddDocumentResult;
+      try {
+        result = await upload;
+      } catch (error) {
+        setUploadError(`Could not add document: ${error instanceof Error ? error.message : 'unknown error'}`);
+        return;
+      }
+      if (result.status === 'duplicate') {
+        setUploadNotice({ kind: 'duplicate', text: `Already in the knowledge base as "${result.document.title}" (v${result.document.version}).` });
+      } else if (result.status === 'updated') {
+        setUploadNotice({
+          kind: 'updated',
+          text: `Updated "${result.document.title}" to v${result.document.version}${result.document.diff ? ` (${formatDiff(result.document.diff)})` : ''}.`
+        });
+      } else {
+        setUploadNotice(null);
+      }
     }
   };
 
+  const handleCancel = () => {
+    setExtracted(null);
+    setRedactionActions({});
+    setIsUploading(false);
+  };
+
+  const collections = [...new Set(documents.map(doc => doc.collection).filter((c): c is string => !!c))].sort();
+
+  const formatIngestion = ({ stage, progress }: IngestionStatus) =>
+    stage === 'indexed' ? 'indexed' : `${stage === 'extracting' ? 'reading' : stage} ${Math.round(progress * 100)}%`;
+
+  const isSearching = searchQuery.trim().length >= MIN_FIND_LENGTH;
+  const hits = useMemo(
+    () => isSearching ? findInDocuments(documents, searchQuery) : [],
+    [documents, searchQuery, isSearching]
+  );
+  const matchCount = hits.reduce((sum, hit) => sum + hit.matches.length, 0);
+
+  const formatDiff = (diff: DiffStats) => `+${diff.linesAdded} / −${diff.linesRemoved} lines`;
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -67,7 +228,18 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
   }
 
   return (
-    <div className="w-80 bg-white border-r border-slate-200 flex flex-col h-full">
+    <div
+      className="w-80 bg-white border-r border-slate-200 flex flex-col h-full relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-0 z-10 m-2 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-blue-400 bg-blue-50/90 text-blue-700 pointer-events-none">
+          <Upload className="w-8 h-8" />
+          <p className="text-sm font-medium">Drop files, folders or .zip archives</p>
+        </div>
+      )}
       <div className="p-4 border-b border-slate-200 bg-gradient-to-r from-blue-50 to-purple-50">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
@@ -85,19 +257,174 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
         <div className="space-y-3">
           <input
             type="file"
-            accept=".txt,.md,.json"
+            accept={[...SUPPORTED_EXTENSIONS, '.zip'].join(',')}
+            multiple
             onChange={handleFileUpload}
+            disabled={isExtracting}
             className="hidden"
             id="file-upload"
           />
-          <label
-            htmlFor="file-upload"
-            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer text-sm font-medium"
-          >
-            <Upload className="w-4 h-4" />
-            Upload Document
+          <input
+            type="file"
+            // Not in React's input attributes; lets the browser pick a whole folder
+            ref={input => input?.setAttribute('webkitdirectory', '')}
+            onChange={handleFileUpload}
+            className="hidden"
+            id="folder-upload"
+          />
+          <div className="flex gap-2">
+            <label
+              htmlFor="file-upload"
+              className="flex-1 flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer text-sm font-medium"
+              title="Pick one or more files or .zip archives, or drop them onto this panel"
+            >
+              {isExtracting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {isExtracting ? 'Reading file...' : 'Upload Documents'}
+            </label>
+            <label
+              htmlFor="folder-upload"
+              className="flex items-center gap-1 px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors cursor-pointer text-sm font-medium"
+              title="Upload every supported file in a folder"
+            >
+              <FolderUp className="w-4 h-4" />
+              Folder
+            </label>
+          </div>
+          <label className="flex items-center justify-between gap-2 text-xs text-slate-600">
+            Files already in the knowledge base
+            <select
+              value={existingRule}
+              onChange={(e) => setExistingRule(e.target.value as ExistingFileRule)}
+              className="px-1 py-0.5 border border-slate-300 rounded bg-white text-xs"
+            >
+              <option value="skip">Skip</option>
+              <option value="overwrite">Overwrite</option>
+            </select>
           </label>
+
+          <div className="flex gap-2">
+            <button
+              onClick={onExport}
+              disabled={documents.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+              title="Download the knowledge base as a bundle"
+            >
+              <Download className="w-3 h-3" />
+              Export
+            </button>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+              id="bundle-import"
+            />
+            <label
+              htmlFor="bundle-import"
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors text-xs font-medium cursor-pointer"
+              title="Load a knowledge base bundle"
+            >
+              <FileUp className="w-3 h-3" />
+              Import
+            </label>
+          </div>
+
+          {pendingImport && (
+            <div className="text-xs text-slate-700 bg-white p-2 rounded border border-slate-200">
+              <p className="mb-2">
+                Import <strong>{pendingImport.fileName}</strong>: add to the current knowledge base or replace it?
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleImport('merge')}
+                  className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={() => handleImport('replace')}
+                  className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="px-2 py-1 text-slate-600 hover:bg-slate-100 rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {uploadError && (
+            <div className="text-xs text-red-700 bg-red-50 border border-red-200 p-2 rounded flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span className="flex-1">{uploadError}</span>
+              <button onClick={() => setUploadError(null)} className="hover:text-red-900">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {uploadNotice && (
+            <div className={`text-xs p-2 rounded flex items-start gap-1 border ${
+              uploadNotice.kind === 'duplicate'
+                ? 'text-amber-700 bg-amber-50 border-amber-200'
+                : 'text-green-700 bg-green-50 border-green-200'
+            }`}>
+              {uploadNotice.kind === 'duplicate'
+                ? <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                : <CheckCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+              <span className="flex-1">{uploadNotice.text}</span>
+              <button onClick={() => setUploadNotice(null)} className="hover:opacity-75">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
           
+          {uploadQueue.items.length > 0 && (
+            <UploadQueue
+              items={uploadQueue.items}
+              onApprove={uploadQueue.approve}
+              onReject={uploadQueue.reject}
+              onCancelPending={uploadQueue.cancelPending}
+              onClearFinished={uploadQueue.clearFinished}
+              onOpenDocument={onOpenDocument}
+            />
+          )}
+
+          {ingestions.length > 0 && (
+            <ul className="space-y-2">
+              {ingestions.map(ingestion => (
+                <li key={ingestion.id} className="text-xs bg-white/70 p-2 rounded border border-slate-200">
+                  <div className="flex items-center gap-2">
+                    {ingestion.stage === 'indexed'
+                      ? <CheckCircle className="w-3 h-3 text-green-600 flex-shrink-0" />
+                      : <Loader2 className="w-3 h-3 text-blue-600 animate-spin flex-shrink-0" />}
+                    <span className="flex-1 truncate text-slate-700">{ingestion.title}</span>
+                    <span className="text-slate-500 flex-shrink-0">{formatIngestion(ingestion)}</span>
+                    {ingestion.stage !== 'indexed' && (
+                      <button
+                        onClick={() => onCancelIngestion(ingestion.id)}
+                        className="p-0.5 hover:bg-red-100 rounded text-red-600"
+                        title="Cancel"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-1 h-1 bg-slate-200 rounded overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${ingestion.stage === 'indexed' ? 'bg-green-500' : 'bg-blue-500'}`}
+                      style={{ width: `${Math.round(ingestion.progress * 100)}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
           <div className="text-xs text-slate-600 bg-white/50 p-2 rounded">
             <strong>{documents.length}</strong> documents • <strong>{documents.reduce((acc, doc) => acc + doc.chunks.length, 0)}</strong> chunks
           </div>
@@ -109,11 +436,70 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
           <div className="p-6 text-center text-slate-500">
             <FileText className="w-12 h-12 mx-auto mb-3 text-slate-300" />
             <p className="text-sm">No documents uploaded yet</p>
-            <p className="text-xs mt-1">Upload .txt, .md, or .json files to get started</p>
+            <p className="text-xs mt-1">Upload or drop .txt, .md, .json, .pdf, .docx, .html or .csv files, folders or .zip archives to get started</p>
           </div>
         ) : (
           <div className="p-4 space-y-3">
-            {documents.map((doc) => (
+            <div className="relative">
+              <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search all documents"
+                className="w-full pl-8 pr-8 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              {searchQuery && (
+                <button
+                  onClick={() => setSearchQuery('')}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 hover:bg-slate-100 rounded"
+                >
+                  <X className="w-3 h-3 text-slate-500" />
+                </button>
+              )}
+            </div>
+
+            {isSearching && (
+              <div className="space-y-2">
+                <div className="text-xs text-slate-500">
+                  {hits.length === 0
+                    ? 'No matches'
+                    : `${matchCount} match${matchCount !== 1 ? 'es' : ''} in ${hits.length} chunk${hits.length !== 1 ? 's' : ''}`}
+                </div>
+                {hits.map(hit => {
+                  const content = documents.find(doc => doc.id === hit.docId)?.content ?? '';
+                  const first = hit.matches[0];
+                  const from = Math.max(hit.start, first.start - 60);
+                  const to = Math.min(hit.end, first.end + 60);
+                  return (
+                    <button
+                      key={`${hit.docId}:${hit.chunkIndex}`}
+                      onClick={() => onOpenDocument(hit.docId, { highlight: { start: hit.start, end: hit.end }, query: searchQuery })}
+                      className="w-full text-left p-2 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors"
+                    >
+                      <div className="text-xs font-medium text-slate-800 flex justify-between gap-2">
+                        <span className="truncate">{hit.title}</span>
+                        <span className="text-slate-500 flex-shrink-0">
+                          Chunk {hit.chunkIndex + 1}{hit.matches.length > 1 && ` • ${hit.matches.length} matches`}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-600 mt-1 line-clamp-2">
+                        {from > hit.start && '…'}
+                        <HighlightedText
+                          content={content}
+                          start={from}
+                          end={to}
+                          marks={hit.matches.map(match => ({ ...match, kind: 'match' }))}
+                        />
+                        {to < hit.end && '…'}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {!isSearching && documents.map((doc) => (
               <div key={doc.id} className="border border-slate-200 rounded-lg overflow-hidden">
                 <button
                   onClick={() => setExpandedDoc(expandedDoc === doc.id ? null : doc.id)}
@@ -126,8 +512,16 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
                         {doc.title}
                       </div>
                       <div className="text-xs text-slate-500">
-                        {formatFileSize(doc.size)} • {doc.chunks.length} chunks
+                        v{doc.version} • {formatFileSize(doc.size)} • {doc.chunks.length} chunks
+                        {doc.pages && ` • ${doc.pages.length} pages`}
                       </div>
+                      {(doc.collection || doc.tags.length > 0) && (
+                        <div className="text-xs text-slate-500 truncate">
+                          {doc.collection && <span className="text-blue-700">{doc.collection}</span>}
+                          {doc.collection && doc.tags.length > 0 && ' • '}
+                          {doc.tags.map(tag => `#${tag}`).join(' ')}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-1">
@@ -152,10 +546,64 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
                   <div className="p-3 bg-white border-t border-slate-200">
                     <div className="text-xs text-slate-600 mb-2">
                       Uploaded: {doc.uploadedAt.toLocaleDateString()}
+                      {' • '}Chunks of {doc.chunking.chunkSize} chars, {doc.chunking.format
+                        ? `whole ${doc.chunking.format.toUpperCase()} rows`
+                        : `${doc.chunking.overlap} overlap`}
+                      {doc.language && <> • Language: {LANGUAGE_NAMES[doc.language]}</>}
+                      {doc.relativePath && <> • Path: {doc.relativePath}</>}
+                      {doc.redaction && <> • Sensitive data: {formatDecisions(doc.redaction)}</>}
+                      {doc.diff && <> • {formatDiff(doc.diff)} since v{doc.version - 1}</>}
+                      {doc.restoredFrom !== undefined && <> • restored from v{doc.restoredFrom}</>}
                     </div>
-                    <div className="max-h-32 overflow-y-auto text-xs text-slate-700 bg-slate-50 p-2 rounded">
-                      {doc.content.substring(0, 200)}...
-                    </div>
+                    <DocumentMetadataEditor
+                      document={doc}
+                      collections={collections}
+                      onChange={(metadata) => onUpdateMetadata(doc.id, metadata)}
+                    />
+                    {doc.embeddingError && (
+                      <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded mb-2 flex items-start gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        Embeddings unavailable ({doc.embeddingError}); using keyword search only.
+                      </div>
+                    )}
+                    <button
+                      onClick={() => onOpenDocument(doc.id)}
+                      className="w-full text-left text-xs text-slate-700 bg-slate-50 hover:bg-slate-100 p-2 rounded transition-colors"
+                    >
+                      <span className="line-clamp-3">{doc.content.substring(0, 200)}</span>
+                      <span className="mt-1 flex items-center gap-1 text-blue-700 font-medium">
+                        <BookOpen className="w-3 h-3" />
+                        Open full text
+                      </span>
+                    </button>
+                    {doc.versions.length > 0 && (
+                      <div className="mt-2">
+                        <div className="text-xs font-medium text-slate-700 mb-1 flex items-center gap-1">
+                          <History className="w-3 h-3" />
+                          Version history
+                        </div>
+                        <ul className="space-y-1">
+                          {[...doc.versions].reverse().map(version => (
+                            <li key={version.version} className="text-xs text-slate-600 flex items-center justify-between gap-2">
+                              <span className="truncate">
+                                v{version.version} • {version.uploadedAt.toLocaleDateString()}
+                                {version.diff && ` • ${formatDiff(version.diff)}`}
+                                {version.restoredFrom !== undefined && ` • restored from v${version.restoredFrom}`}
+                              </span>
+                              <button
+                                onClick={() => onRollback(doc.id, version.version)}
+                                disabled={version.contentHash === doc.contentHash}
+                                className="flex items-center gap-1 px-1.5 py-0.5 rounded text-blue-700 hover:bg-blue-50 disabled:text-slate-400 disabled:hover:bg-transparent flex-shrink-0"
+                                title={`Restore v${version.version} as a new version`}
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                                Restore
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -182,6 +630,44 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
               rows={4}
               className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-none"
             />
+            {findingGroups.length > 0 && (
+              <RedactionReport
+                groups={findingGroups}
+                actions={redactionActions}
+                onChange={(ruleId, action) => setRedactionActions(prev => ({ ...prev, [ruleId]: action }))}
+              />
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-slate-600">
+                Chunk size (chars)
+                <input
+                  type="number"
+                  min={MIN_CHUNK_SIZE}
+                  step={50}
+                  value={chunking.chunkSize}
+                  onChange={(e) => setChunking(prev => {
+                    const chunkSize = Math.max(MIN_CHUNK_SIZE, Math.round(Number(e.target.value)) || 0);
+                    return { ...prev, chunkSize, overlap: Math.min(prev.overlap, chunkSize - 1) };
+                  })}
+                  className="w-full mt-1 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+              </label>
+              <label className="text-xs text-slate-600">
+                Overlap (chars)
+                <input
+                  type="number"
+                  min={0}
+                  max={chunking.chunkSize - 1}
+                  step={10}
+                  value={chunking.overlap}
+                  onChange={(e) => setChunking(prev => ({
+                    ...prev,
+                    overlap: Math.min(prev.chunkSize - 1, Math.max(0, Math.round(Number(e.target.value)) || 0))
+                  }))}
+                  className="w-full mt-1 px-2 py-1 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+              </label>
+            </div>
             <div className="flex gap-2">
               <button
                 onClick={handleUpload}
@@ -190,7 +676,7 @@ export default function DocumentPanel({ documents, onUpload, onDelete, isOpen, o
                 Add Document
               </button>
               <button
-                onClick={() => setIsUploading(false)}
+                onClick={handleCancel}
                 className="px-3 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors text-sm"
               >
                 Cancel
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FileText, X, Search, ChevronUp, ChevronDown } from 'lucide-react';
+import { Document } from '../types';
+import { findMatches, MIN_FIND_LENGTH } from '../lib/search';
+import { formatRowRange } from '../lib/chunking';
+import HighlightedText, { TextMark } from './HighlightedText';
+import MarkdownView from './MarkdownView';
+
+interface DocumentViewerProps {
+  document?: Document;
+  // Title to show when the document has since been deleted
+  title: string;
+  highlight?: { start: number; end: number };
+  // Version the highlight refers to; older versions are shown from the history
+  version?: number;
+  // Search to start with, e.g. from the panel-wide search
+  initialQuery?: string;
+  onClose: () => void;
+}
+
+// Web pages are stored as the Markdown they were converted to
+const MARKDOWN_FILE = /\.(md|markdown|html?)$/i;
+
+export default function DocumentViewer({ document, title, highlight, version, initialQuery, onClose }: DocumentViewerProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const isOutdated = document !== undefined && version !== undefined && version !== document.version;
+  const snapshot = isOutdated ? document.versions.find(v => v.version === version) : undefined;
+  // Offsets from an older version only make sense against that version's text
+  const content = (snapshot ? snapshot.content : document?.content) ?? '';
+  // Chunks are only kept for the current version
+  const chunks = snapshot ? [] : document?.chunks ?? [];
+  const isMarkdown = MARKDOWN_FILE.test(snapshot?.fileName ?? document?.fileName ?? title);
+
+  const hasHighlight = document && highlight && (!isOutdated || snapshot) && highlight.end > highlight.start && highlight.end <= content.length;
+
+  const [query, setQuery] = useState(initialQuery ?? '');
+  const matches = useMemo(() => findMatches(content, query), [content, query]);
+  // Start at the first match inside the highlighted range when opened from a search hit
+  const [activeMatch, setActiveMatch] = useState(() =>
+    hasHighlight ? Math.max(0, matches.findIndex(match => match.start >= highlight.start)) : 0
+  );
+  const [selectedChunk, setSelectedChunk] = useState<number | null>(null);
+  const [showSource, setShowSource] = useState(false);
+
+  const focusedChunk = selectedChunk !== null
+    ? chunks.find(c => c.ordinal === selectedChunk)
+    : hasHighlight ? chunks.find(c => c.start === highlight.start && c.end === highlight.end) : undefined;
+  const focus: TextMark | null = selectedChunk !== null && focusedChunk
+    ? { start: focusedChunk.start, end: focusedChunk.end, kind: 'chunk' }
+    : hasHighlight ? { ...highlight, kind: 'citation' } : null;
+
+  const marks: TextMark[] = [
+    ...(focus ? [focus] : []),
+    ...matches.map((match, i) => ({ ...match, kind: i === activeMatch ? 'activeMatch' as const : 'match' as const }))
+  ];
+
+  useEffect(() => {
+    contentRef.current?.querySelector('[data-focus]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [document, highlight?.start, highlight?.end, selectedChunk, showSource]);
+
+  useEffect(() => {
+    contentRef.current?.querySelector('[data-active-match]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [matches, activeMatch, showSource]);
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    setActiveMatch(current => (current + delta + matches.length) % matches.length);
+  };
+
+  const matchesIn = (chunk: { start: number; end: number }) =>
+    matches.filter(match => match.start >= chunk.start && match.start < chunk.end).length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-5xl h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+              <FileText className="w-5 h-5 flex-shrink-0" />
+              <span className="truncate">{document?.title ?? title}</span>
+            </h2>
+            {focusedChunk && (
+              <p className="text-xs text-slate-500 mt-1">
+                Chunk {focusedChunk.ordinal + 1} of {chunks.length}
+                {focusedChunk.page && ` • Page ${focusedChunk.page}`}
+                {focusedChunk.rows && ` • ${formatRowRange(focusedChunk.rows)}`}
+                {focusedChunk.headingPath.length > 0 && ` • ${focusedChunk.headingPath.join(' › ')}`}
+              </p>
+            )}
+            {isOutdated && (
+              <p className="text-xs text-amber-700 mt-1">
+                {snapshot
+                  ? `Showing v${version}, the version this answer was based on (current: v${document.version})`
+                  : `Cited v${version} is no longer available; showing current v${document.version}`}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        {document && (
+          <div className="px-4 py-2 border-b border-slate-200 flex items-center gap-2">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveMatch(0);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    step(e.shiftKey ? -1 : 1);
+                  }
+                }}
+                placeholder="Find in document"
+                className="w-full pl-8 pr-3 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+            </div>
+            {query.trim().length >= MIN_FIND_LENGTH && (
+              <span className="text-xs text-slate-500 tabular-nums">
+                {matches.length > 0 ? `${activeMatch + 1} of ${matches.length}` : 'No matches'}
+              </span>
+            )}
+            <button
+              onClick={() => step(-1)}
+              disabled={matches.length === 0}
+              className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+              title="Previous match (Shift+Enter)"
+            >
+              <ChevronUp className="w-4 h-4 text-slate-600" />
+            </button>
+            <button
+              onClick={() => step(1)}
+              disabled={matches.length === 0}
+              className="p-1 rounded hover:bg-slate-100 disabled:opacity-40"
+              title="Next match (Enter)"
+            >
+              <ChevronDown className="w-4 h-4 text-slate-600" />
+            </button>
+            {isMarkdown && (
+              <div className="ml-auto flex text-xs border border-slate-300 rounded-lg overflow-hidden">
+                {[false, true].map(source => (
+                  <button
+                    key={String(source)}
+                    onClick={() => setShowSource(source)}
+                    className={`px-2 py-1 ${showSource === source ? 'bg-slate-200 text-slate-800' : 'text-slate-600 hover:bg-slate-100'}`}
+                  >
+                    {source ? 'Source' : 'Rendered'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {chunks.length > 0 && (
+            <ul className="w-56 flex-shrink-0 border-r border-slate-200 overflow-y-auto p-2 space-y-1">
+              {chunks.map(chunk => {
+                const count = query ? matchesIn(chunk) : 0;
+                return (
+                  <li key={chunk.ordinal}>
+                    <button
+                      onClick={() => setSelectedChunk(selectedChunk === chunk.ordinal ? null : chunk.ordinal)}
+                      className={`w-full text-left text-xs p-2 rounded transition-colors ${
+                        focusedChunk === chunk ? 'bg-blue-50 text-blue-800' : 'text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      <span className="flex justify-between gap-2">
+                        <span className="font-medium">Chunk {chunk.ordinal + 1}</span>
+                        {count > 0 && <span className="text-orange-700">{count}</span>}
+                      </span>
+                      <span className="block truncate text-slate-500">
+                        {chunk.headingPath.length > 0 ? chunk.headingPath[chunk.headingPath.length - 1] : chunk.text.substring(0, 40)}
+                      </span>
+                      <span className="block text-slate-400">
+                        {chunk.page !== undefined && `p. ${chunk.page} • `}
+                        {chunk.rows ? formatRowRange(chunk.rows) : `chars ${chunk.start}–${chunk.end}`}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div ref={contentRef} className="flex-1 overflow-y-auto p-6">
+            {!document ? (
+              <p className="text-sm text-slate-500 text-center mt-8">
+                This document is no longer in the knowledge base.
+              </p>
+            ) : isMarkdown && !showSource ? (
+              <MarkdownView content={content} marks={marks} />
+            ) : (
+              <pre className="text-sm text-slate-800 leading-relaxed whitespace-pre-wrap font-sans">
+                <HighlightedText content={content} start={0} end={content.length} marks={marks} />
+              </pre>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { ThumbsDown, X, MessageSquare, Undo2 } from 'lucide-react';
+import { DownvotedAnswer } from '../types';
+
+interface FeedbackReviewProps {
+  answers: DownvotedAnswer[];
+  onOpenConversation: (id: string) => void;
+  onClearRating: (messageId: string) => void;
+  onClose: () => void;
+}
+
+export default function FeedbackReview({ answers, onOpenConversation, onClearRating, onClose }: FeedbackReviewProps) {
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <ThumbsDown className="w-5 h-5" />
+            Downvoted answers
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {answers.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No answers have been downvoted.</p>
+          ) : (
+            answers.map(({ message, question, conversation }) => {
+              const irrelevant = message.sources?.filter(s => s.judgement === 'irrelevant') ?? [];
+              return (
+                <div key={message.id} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2 mb-2 text-xs text-slate-500">
+                    <span className="truncate">
+                      {conversation?.title ?? 'Deleted conversation'} • {message.timestamp.toLocaleString()}
+                    </span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {conversation && (
+                        <button
+                          onClick={() => onOpenConversation(conversation.id)}
+                          className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 text-blue-700"
+                        >
+                          <MessageSquare className="w-3 h-3" />
+                          Open
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onClearRating(message.id)}
+                        className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-100 text-slate-600"
+                        title="Remove the downvote"
+                      >
+                        <Undo2 className="w-3 h-3" />
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm font-medium text-slate-800 mb-1">{question}</p>
+                  {message.searchQuery && (
+                    <p className="text-xs text-slate-500 italic mb-1">Searched for: {message.searchQuery}</p>
+                  )}
+                  <p className="text-sm text-slate-600 whitespace-pre-wrap line-clamp-4">{message.content}</p>
+                  <p className="text-xs text-slate-500 mt-2">
+                    {message.sources?.length ?? 0} source{message.sources?.length !== 1 ? 's' : ''}
+                    {irrelevant.length > 0 && ` • marked not relevant: ${irrelevant.map(s => `[${s.id}] ${s.title}`).join(', ')}`}
+                  </p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Fragment } from 'react';
+
+export interface TextMark {
+  start: number;
+  end: number;
+  kind: 'chunk' | 'citation' | 'match' | 'activeMatch';
+}
+
+// Later kinds win where marks overlap
+const PRIORITY: TextMark['kind'][] = ['chunk', 'citation', 'match', 'activeMatch'];
+
+const MARK_CLASSES: Record<TextMark['kind'], string> = {
+  chunk: 'bg-blue-100 rounded',
+  citation: 'bg-yellow-200 rounded',
+  match: 'bg-orange-200 rounded',
+  activeMatch: 'bg-orange-400 text-white rounded'
+};
+
+interface HighlightedTextProps {
+  content: string;
+  start: number;
+  end: number;
+  marks: TextMark[];
+}
+
+// Renders content.slice(start, end) with the marks that overlap it. Marks carry data
+// attributes so the viewer can scroll to the active match or the focused range.
+export default function HighlightedText({ content, start, end, marks }: HighlightedTextProps) {
+  const overlapping = marks.filter(mark => mark.start < end && mark.end > start);
+  if (overlapping.length === 0) return <>{content.slice(start, end)}</>;
+
+  const boundaries = [...new Set([
+    start,
+    end,
+    ...overlapping.flatMap(mark => [mark.start, mark.end]).filter(offset => offset > start && offset < end)
+  ])].sort((a, b) => a - b);
+
+  return (
+    <>
+      {boundaries.slice(0, -1).map((from, i) => {
+        const to = boundaries[i + 1];
+        const text = content.slice(from, to);
+        const kind = overlapping
+          .filter(mark => mark.start <= from && mark.end >= to)
+          .reduce<TextMark['kind'] | null>((best, mark) =>
+            best === null || PRIORITY.indexOf(mark.kind) > PRIORITY.indexOf(best) ? mark.kind : best, null);
+        if (!kind) return <Fragment key={from}>{text}</Fragment>;
+        return (
+          <mark
+            key={from}
+            className={MARK_CLASSES[kind]}
+            data-active-match={kind === 'activeMatch' || undefined}
+            data-focus={kind === 'chunk' || kind === 'citation' || undefined}
+          >
+            {text}
+          </mark>
+        );
+      })}
+    </>
+  );
+}
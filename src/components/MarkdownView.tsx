@@ -0,0 +1,113 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { InlineNode, MarkdownBlock, parseMarkdown } from '../lib/markdown';
+import CodeBlock from './CodeBlock';
+import HighlightedText, { TextMark } from './HighlightedText';
+
+interface MarkdownViewProps {
+  content: string;
+  marks?: TextMark[];
+  // Renders plain text runs, e.g. to turn citation markers into links; defaults to the text with its marks
+  renderText?: (start: number, end: number) => ReactNode;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold',
+  'text-xl font-bold',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold text-slate-600'
+];
+
+export default function MarkdownView({ content, marks = [], renderText }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const renderInline = (nodes: InlineNode[]) => nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return renderText
+          ? <Fragment key={i}>{renderText(node.start, node.end)}</Fragment>
+          : <HighlightedText key={i} content={content} start={node.start} end={node.end} marks={marks} />;
+      case 'code':
+        return (
+          <code key={i} className="px-1 py-0.5 bg-slate-100 rounded text-[0.9em] font-mono">
+            <HighlightedText content={content} start={node.start} end={node.end} marks={marks} />
+          </code>
+        );
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'link':
+        return node.href ? (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-700 underline">
+            {renderInline(node.children)}
+          </a>
+        ) : (
+          <span key={i}>{renderInline(node.children)}</span>
+        );
+    }
+  });
+
+  const renderBlock = (block: MarkdownBlock) => {
+    switch (block.type) {
+      case 'heading':
+        return <div className={`${HEADING_CLASSES[block.level - 1]} text-slate-900 mt-4 mb-2`}>{renderInline(block.children)}</div>;
+      case 'paragraph':
+        return <p className="my-2 whitespace-pre-line">{renderInline(block.children)}</p>;
+      case 'quote':
+        return <blockquote className="my-2 pl-3 border-l-4 border-slate-300 text-slate-600 whitespace-pre-line">{renderInline(block.children)}</blockquote>;
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List className={`my-2 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, i) => (
+              <li key={i} style={{ marginLeft: `${item.depth * 1.25}rem` }}>{renderInline(item.children)}</li>
+            ))}
+          </List>
+        );
+      }
+      case 'code': {
+        const { start, end } = block.code;
+        // Marked code is shown with its marks instead of syntax colours
+        const isMarked = marks.some(mark => mark.start < end && mark.end > start);
+        return (
+          <CodeBlock code={content.slice(start, end)} language={block.language}>
+            {isMarked ? <HighlightedText content={content} start={start} end={end} marks={marks} /> : undefined}
+          </CodeBlock>
+        );
+      }
+      case 'table':
+        return (
+          <div className="my-2 overflow-x-auto">
+            <table className="text-sm border border-slate-200">
+              <thead className="bg-slate-50">
+                <tr>
+                  {block.header.map((cell, i) => (
+                    <th key={i} className="px-2 py-1 border border-slate-200 text-left font-semibold">{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, i) => (
+                  <tr key={i}>
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-2 py-1 border border-slate-200">{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr className="my-4 border-slate-200" />;
+    }
+  };
+
+  return (
+    <div className="text-sm text-slate-800 leading-relaxed">
+      {blocks.map(block => <Fragment key={block.start}>{renderBlock(block)}</Fragment>)}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { ShieldAlert } from 'lucide-react';
+import { FindingGroup, REDACTION_ACTION_LABELS, RedactionAction } from '../lib/redaction';
+
+interface RedactionReportProps {
+  groups: FindingGroup[];
+  actions: Record<string, RedactionAction>;
+  onChange: (ruleId: string, action: RedactionAction) => void;
+}
+
+// Values shown per rule so the user can tell what was found, masked so the report doesn't repeat them
+const MAX_EXAMPLES = 3;
+
+export default function RedactionReport({ groups, actions, onChange }: RedactionReportProps) {
+  return (
+    <div className="text-xs bg-amber-50 border border-amber-300 rounded-lg p-2">
+      <div className="flex items-center gap-1 font-medium text-amber-800 mb-2">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        Sensitive data found
+      </div>
+      <ul className="space-y-1.5">
+        {groups.map(({ rule, findings }) => (
+          <li key={rule.id} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <span className="font-medium text-slate-800">{rule.label}</span>
+              <span className="text-slate-500"> ×{findings.length}</span>
+              <div className="truncate font-mono text-slate-500">
+                {findings.slice(0, MAX_EXAMPLES).map(finding => rule.mask(finding.value)).join(', ')}
+                {findings.length > MAX_EXAMPLES && ', …'}
+              </div>
+            </div>
+            <select
+              value={actions[rule.id] ?? rule.defaultAction}
+              onChange={(e) => onChange(rule.id, e.target.value as RedactionAction)}
+              className="px-1 py-0.5 border border-slate-300 rounded bg-white"
+            >
+              {(Object.keys(REDACTION_ACTION_LABELS) as RedactionAction[]).map(action => (
+                <option key={action} value={action}>{REDACTION_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-slate-600">
+        Redacted and masked values are replaced before the document is chunked, so they never reach the index or a prompt.
+      </p>
+    </div>
+  );
+}
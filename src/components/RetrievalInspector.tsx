@@ -0,0 +1,266 @@
+import { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, X, Loader2 } from 'lucide-react';
+import { DEFAULT_RETRIEVAL_SETTINGS, FusionMethod, RetrievalScope, RetrievalSettings } from '../lib/search';
+import { detectLanguage, LANGUAGE_NAMES } from '../lib/analysis';
+import { formatRowRange } from '../lib/chunking';
+import { RetrievalCandidate, RetrievalDebugResult, Source } from '../types';
+import { formatSettingValue, FUSION_LABELS, RETRIEVAL_FIELDS } from './retrievalFields';
+
+interface RetrievalInspectorProps {
+  initialQuery: string;
+  scope?: RetrievalScope;
+  settings: RetrievalSettings;
+  // Sources the inspected answer actually used
+  cited: Source[];
+  onChangeSettings: (settings: Partial<RetrievalSettings>) => void;
+  onInspect: (query: string, scope?: RetrievalScope) => Promise<RetrievalDebugResult>;
+  onOpenSource: (source: Source) => void;
+  onClose: () => void;
+}
+
+// Wait for typing to pause before re-running retrieval
+const QUERY_DEBOUNCE_MS = 250;
+
+export default function RetrievalInspector({
+  initialQuery,
+  scope,
+  settings,
+  cited,
+  onChangeSettings,
+  onInspect,
+  onOpenSource,
+  onClose
+}: RetrievalInspectorProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [result, setResult] = useState<RetrievalDebugResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const inspectRef = useRef(onInspect);
+  inspectRef.current = onInspect;
+  const runRef = useRef(0);
+
+  // Re-run retrieval whenever the query or any setting changes; only the latest run is shown
+  useEffect(() => {
+    const run = ++runRef.current;
+    const timer = setTimeout(async () => {
+      if (!query.trim()) {
+        setResult(null);
+        return;
+      }
+      setIsRunning(true);
+      try {
+        const next = await inspectRef.current(query, scope);
+        if (run === runRef.current) {
+          setResult(next);
+          setError(null);
+        }
+      } catch (e) {
+        if (run === runRef.current) setError(e instanceof Error ? e.message : 'Retrieval failed');
+      } finally {
+        if (run === runRef.current) setIsRunning(false);
+      }
+    }, QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, scope, settings]);
+
+  const isCited = (candidate: RetrievalCandidate) => cited.some(source =>
+    source.docId === candidate.docId &&
+    source.chunkIndex === candidate.chunkIndex &&
+    (source.version === undefined || source.version === candidate.version)
+  );
+
+  const openCandidate = (candidate: RetrievalCandidate) => onOpenSource({
+    id: candidate.rank,
+    docId: candidate.docId,
+    version: candidate.version,
+    chunkIndex: candidate.chunkIndex,
+    start: candidate.start,
+    end: candidate.end,
+    title: candidate.title,
+    content: candidate.content,
+    relevance: candidate.relevance,
+    headingPath: candidate.headingPath,
+    page: candidate.page,
+    rows: candidate.rows
+  });
+
+  const statusOf = (candidate: RetrievalCandidate) => {
+    switch (candidate.cut) {
+      case 'threshold':
+        return { label: 'Below threshold', detail: `relevance ≤ ${settings.minRelevance.toFixed(2)}`, className: 'text-slate-500 bg-slate-100' };
+      case 'topK':
+        return { label: 'Beyond top-K', detail: `only the first ${settings.topK} above the threshold are used`, className: 'text-amber-700 bg-amber-50' };
+      default:
+        return { label: 'Used', detail: 'passed to the model', className: 'text-green-700 bg-green-50' };
+    }
+  };
+
+  const cell = 'px-2 py-1.5 text-right tabular-nums';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-6xl h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            Retrieval Inspector
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-72 flex-shrink-0 border-r border-slate-200 p-4 space-y-3 overflow-y-auto">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Query</span>
+              <textarea
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                rows={3}
+                className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-none"
+              />
+              <span
+                className="text-xs text-slate-500"
+                title="Each document is matched against the query analyzed in the document's own language"
+              >
+                Query language: {LANGUAGE_NAMES[detectLanguage(query).language]}
+              </span>
+            </label>
+
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800">Settings</h3>
+              <button
+                onClick={() => onChangeSettings(DEFAULT_RETRIEVAL_SETTINGS)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Reset
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">Changes apply immediately and are saved for future questions.</p>
+
+            <label className="block">
+              <span className="text-sm text-slate-700">Fusion</span>
+              <select
+                value={settings.fusion}
+                onChange={(e) => onChangeSettings({ fusion: e.target.value as FusionMethod })}
+                className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+              >
+                {(Object.keys(FUSION_LABELS) as FusionMethod[]).map(method => (
+                  <option key={method} value={method}>{FUSION_LABELS[method]}</option>
+                ))}
+              </select>
+            </label>
+
+            {RETRIEVAL_FIELDS.map(({ key, label, min, max, step }) => (
+              <label key={key} className="block">
+                <span className="text-sm text-slate-700 flex justify-between">
+                  {label}
+                  <span className="text-slate-500">{formatSettingValue(settings[key], step)}</span>
+                </span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings[key]}
+                  onChange={(e) => onChangeSettings({ [key]: parseFloat(e.target.value) })}
+                  className="w-full mt-1"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="px-4 py-2 border-b border-slate-200 text-xs text-slate-600 flex items-center gap-2">
+              {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+              {result && (
+                <span>
+                  {result.total} candidate{result.total !== 1 ? 's' : ''}
+                  {result.total > result.candidates.length && `, showing the top ${result.candidates.length}`}
+                  {result.outOfScope > 0 && ` • ${result.outOfScope} document${result.outOfScope !== 1 ? 's' : ''} outside the conversation scope not searched`}
+                </span>
+              )}
+              {error && <span className="text-red-700">{error}</span>}
+            </div>
+
+            <div className="flex-1 overflow-auto">
+              {result && result.candidates.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center mt-8">No chunk matches this query.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="px-2 py-2 text-right">#</th>
+                      <th className="px-2 py-2 text-left">Passage</th>
+                      <th className={cell} title="Ranking score of the fusion method">Score</th>
+                      <th className={cell} title="Blended relevance compared against the threshold">Relevance</th>
+                      <th className={cell}>BM25</th>
+                      <th className={cell}>Phrase</th>
+                      <th className={cell}>Proximity</th>
+                      <th className={cell} title="Cosine similarity of the embeddings">Dense</th>
+                      <th className={cell} title="Adjustment from feedback on similar past questions">Feedback</th>
+                      <th className="px-2 py-2 text-left">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result?.candidates.map(candidate => {
+                      const status = statusOf(candidate);
+                      return (
+                        <tr
+                          key={`${candidate.docId}:${candidate.chunkIndex}`}
+                          className={`border-t border-slate-100 ${candidate.cut ? 'text-slate-500' : 'text-slate-800'}`}
+                        >
+                          <td className="px-2 py-1.5 text-right tabular-nums">{candidate.rank}</td>
+                          <td className="px-2 py-1.5 max-w-xs">
+                            <button
+                              onClick={() => openCandidate(candidate)}
+                              className="text-left hover:text-blue-700"
+                            >
+                              <span className="font-medium">{candidate.title}</span>
+                              <span className="text-slate-500"> • chunk {candidate.chunkIndex + 1}</span>
+                              {candidate.headingPath && <span className="text-slate-500"> • {candidate.headingPath.join(' › ')}</span>}
+                              {candidate.rows && <span className="text-slate-500"> • {formatRowRange(candidate.rows)}</span>}
+                              <span className="block truncate text-slate-500">{candidate.content.substring(0, 120)}</span>
+                            </button>
+                          </td>
+                          <td className={cell}>{candidate.score.toFixed(4)}</td>
+                          <td className={cell}>{candidate.relevance.toFixed(3)}</td>
+                          <td className={cell}>{candidate.breakdown.bm25.toFixed(3)}</td>
+                          <td className={cell}>{candidate.breakdown.phrase.toFixed(3)}</td>
+                          <td className={cell}>{candidate.breakdown.proximity.toFixed(3)}</td>
+                          <td className={cell}>{candidate.breakdown.dense.toFixed(3)}</td>
+                          <td className={cell}>
+                            {candidate.breakdown.feedback !== undefined
+                              ? `${candidate.breakdown.feedback >= 0 ? '+' : ''}${candidate.breakdown.feedback.toFixed(3)}`
+                              : '–'}
+                          </td>
+                          <td className="px-2 py-1.5">
+                            <span className={`inline-block px-1.5 py-0.5 rounded ${status.className}`} title={status.detail}>
+                              {status.label}
+                            </span>
+                            {isCited(candidate) && (
+                              <span className="ml-1 inline-block px-1.5 py-0.5 rounded text-blue-700 bg-blue-50" title="Cited by the inspected answer">
+                                In answer
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
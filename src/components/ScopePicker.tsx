@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { AlertTriangle, Filter, ChevronDown, X, Folder, Tag, FileText } from 'lucide-react';
+import { Document } from '../types';
+import { isScopeEmpty, RetrievalScope } from '../lib/search';
+
+interface ScopePickerProps {
+  documents: Document[];
+  scope?: RetrievalScope;
+  onChange: (scope: RetrievalScope | undefined) => void;
+}
+
+type ScopeFacet = keyof RetrievalScope;
+
+const toggle = (values: string[] | undefined, value: string) =>
+  values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+
+export default function ScopePicker({ documents, scope, onChange }: ScopePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const collections = [...new Set(documents.map(doc => doc.collection).filter((c): c is string => !!c))].sort();
+  const tags = [...new Set(documents.flatMap(doc => doc.tags))].sort();
+  const titles = new Map(documents.map(doc => [doc.id, doc.title]));
+
+  // Unticking the last value of a facet drops the facet, so the scope can go back to everything
+  const update = (facet: ScopeFacet, value: string) => {
+    const values = toggle(scope?.[facet], value);
+    const next = { ...scope, [facet]: values.length > 0 ? values : undefined };
+    onChange(isScopeEmpty(next) ? undefined : next);
+  };
+
+  const chips: { facet: ScopeFacet; value: string; label: string; icon: typeof Folder }[] = [
+    ...(scope?.collections ?? []).map(value => ({ facet: 'collections' as const, value, label: value, icon: Folder })),
+    ...(scope?.tags ?? []).map(value => ({ facet: 'tags' as const, value, label: `#${value}`, icon: Tag })),
+    ...(scope?.documentIds ?? []).map(value => ({
+      facet: 'documentIds' as const,
+      value,
+      label: titles.get(value) ?? 'Deleted document',
+      icon: FileText
+    }))
+  ];
+  // Every document the scope listed was deleted; the conversation searches nothing rather than everything
+  const matchesNothing = !isScopeEmpty(scope) && chips.length === 0;
+
+  const sectionClass = 'text-xs font-semibold text-slate-500 uppercase tracking-wide px-2 pt-2 pb-1';
+  const optionClass = 'flex items-center gap-2 px-2 py-1 text-sm text-slate-700 hover:bg-slate-50 rounded cursor-pointer';
+
+  return (
+    <div className="relative flex items-center gap-2 flex-wrap">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-2 py-1 text-xs text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+      >
+        <Filter className="w-3 h-3" />
+        Searching: <strong>{isScopeEmpty(scope) ? 'All documents' : 'Selected scope'}</strong>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {matchesNothing && (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-full">
+          <AlertTriangle className="w-3 h-3" />
+          The documents in this scope were deleted, so nothing is searched
+        </span>
+      )}
+
+      {chips.map(({ facet, value, label, icon: Icon }) => (
+        <span
+          key={`${facet}:${value}`}
+          className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-800 bg-blue-50 border border-blue-200 rounded-full"
+        >
+          <Icon className="w-3 h-3" />
+          <span className="max-w-[10rem] truncate">{label}</span>
+          <button type="button" onClick={() => update(facet, value)} className="hover:text-blue-950">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 w-72 max-h-80 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg p-2 z-20">
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="w-full text-left text-xs text-blue-600 hover:underline px-2 py-1"
+          >
+            Search all documents
+          </button>
+
+          {collections.length > 0 && (
+            <>
+              <div className={sectionClass}>Collections</div>
+              {collections.map(collection => (
+                <label key={collection} className={optionClass}>
+                  <input
+                    type="checkbox"
+                    checked={scope?.collections?.includes(collection) ?? false}
+                    onChange={() => update('collections', collection)}
+                  />
+                  <Folder className="w-3 h-3 text-slate-400" />
+                  <span className="truncate">{collection}</span>
+                </label>
+              ))}
+            </>
+          )}
+
+          {tags.length > 0 && (
+            <>
+              <div className={sectionClass}>Tags</div>
+              {tags.map(tag => (
+                <label key={tag} className={optionClass}>
+                  <input
+                    type="checkbox"
+                    checked={scope?.tags?.includes(tag) ?? false}
+                    onChange={() => update('tags', tag)}
+                  />
+                  <Tag className="w-3 h-3 text-slate-400" />
+                  <span className="truncate">{tag}</span>
+                </label>
+              ))}
+            </>
+          )}
+
+          <div className={sectionClass}>Documents</div>
+          {documents.map(doc => (
+            <label key={doc.id} className={optionClass}>
+              <input
+                type="checkbox"
+                checked={scope?.documentIds?.includes(doc.id) ?? false}
+                onChange={() => update('documentIds', doc.id)}
+              />
+              <FileText className="w-3 h-3 text-slate-400" />
+              <span className="truncate">{doc.title}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useState } from 'react';
+import { Plus, Settings, Trash2, X } from 'lucide-react';
+import { contextWindowFor, DEFAULT_ANSWER_TEMPLATE, DEFAULT_BASE_URLS, DEFAULT_SYSTEM_PROMPT, LlmProviderKind, LlmSettings } from '../lib/llm';
+import { DEFAULT_RETRIEVAL_SETTINGS, FusionMethod, RetrievalSettings } from '../lib/search';
+import { DEFAULT_EMBEDDING_BASE_URLS, EmbeddingProviderKind, EmbeddingSettings } from '../lib/embeddings';
+import { BUILT_IN_RULES, CustomRedactionRule, patternError } from '../lib/redaction';
+import { createId } from '../lib/ids';
+import { formatSettingValue, FUSION_LABELS, RETRIEVAL_FIELDS } from './retrievalFields';
+
+interface SettingsPanelProps {
+  settings: LlmSettings;
+  retrievalSettings: RetrievalSettings;
+  embeddingSettings: EmbeddingSettings;
+  onSave: (settings: LlmSettings) => void;
+  onSaveRetrieval: (settings: RetrievalSettings) => void;
+  onSaveEmbedding: (settings: EmbeddingSettings) => void;
+  redactionRules: CustomRedactionRule[];
+  onSaveRedactionRules: (rules: CustomRedactionRule[]) => void;
+  onClose: () => void;
+}
+
+const EMBEDDING_LABELS: Record<EmbeddingProviderKind, string> = {
+  hashing: 'Local hashing (offline)',
+  ollama: 'Ollama',
+  openai: 'OpenAI-compatible /embeddings'
+};
+
+const PROVIDER_LABELS: Record<LlmProviderKind, string> = {
+  mock: 'Offline mock (no model)',
+  openai: 'OpenAI-compatible (vLLM, llama.cpp)',
+  ollama: 'Ollama'
+};
+
+export default function SettingsPanel({
+  settings,
+  retrievalSettings,
+  embeddingSettings,
+  onSave,
+  onSaveRetrieval,
+  onSaveEmbedding,
+  redactionRules,
+  onSaveRedactionRules,
+  onClose
+}: SettingsPanelProps) {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [retrievalDraft, setRetrievalDraft] = useState<RetrievalSettings>(retrievalSettings);
+  const [embeddingDraft, setEmbeddingDraft] = useState<EmbeddingSettings>(embeddingSettings);
+  const [rulesDraft, setRulesDraft] = useState<CustomRedactionRule[]>(redactionRules);
+  const [newRule, setNewRule] = useState({ label: '', pattern: '' });
+  const newRuleError = newRule.pattern ? patternError(newRule.pattern) : null;
+
+  const addRule = () => {
+    if (!newRule.label.trim() || patternError(newRule.pattern)) return;
+    setRulesDraft(prev => [...prev, { id: createId(), label: newRule.label.trim(), pattern: newRule.pattern }]);
+    setNewRule({ label: '', pattern: '' });
+  };
+
+  const update = <K extends keyof LlmSettings>(key: K, value: LlmSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleProviderChange = (provider: LlmProviderKind) => {
+    setDraft(prev => ({
+      ...prev,
+      provider,
+      // Swap in the provider's default URL unless the user typed a custom one
+      baseUrl: !prev.baseUrl || Object.values(DEFAULT_BASE_URLS).includes(prev.baseUrl)
+        ? DEFAULT_BASE_URLS[provider]
+        : prev.baseUrl
+    }));
+  };
+
+  const handleEmbeddingProviderChange = (provider: EmbeddingProviderKind) => {
+    setEmbeddingDraft(prev => ({
+      ...prev,
+      provider,
+      baseUrl: !prev.baseUrl || Object.values(DEFAULT_EMBEDDING_BASE_URLS).includes(prev.baseUrl)
+        ? DEFAULT_EMBEDDING_BASE_URLS[provider]
+        : prev.baseUrl
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onSaveRetrieval(retrievalDraft);
+    onSaveEmbedding(embeddingDraft);
+    onSaveRedactionRules(rulesDraft);
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm disabled:bg-slate-100 disabled:text-slate-400';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-slate-200">
+          <h2 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            Model Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700">Provider</span>
+            <select
+              value={draft.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderKind)}
+              className={`${inputClass} mt-1`}
+            >
+              {(Object.keys(PROVIDER_LABELS) as LlmProviderKind[]).map(kind => (
+                <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700">Base URL</span>
+            <input
+              type="text"
+              value={draft.baseUrl}
+              onChange={(e) => update('baseUrl', e.target.value)}
+              placeholder={DEFAULT_BASE_URLS[draft.provider]}
+              disabled={draft.provider === 'mock'}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Model</span>
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => update('model', e.target.value)}
+                disabled={draft.provider === 'mock'}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">API key</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => update('apiKey', e.target.value)}
+                placeholder="Optional"
+                disabled={draft.provider !== 'openai'}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 flex justify-between">
+              Temperature
+              <span className="text-slate-500">{draft.temperature.toFixed(1)}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => update('temperature', parseFloat(e.target.value))}
+              className="w-full mt-1"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 flex justify-between">
+              System prompt
+              <button
+                type="button"
+                onClick={() => update('systemPrompt', DEFAULT_SYSTEM_PROMPT)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Reset
+              </button>
+            </span>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => update('systemPrompt', e.target.value)}
+              rows={4}
+              className={`${inputClass} mt-1 resize-none`}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700 flex justify-between">
+              Answer template
+              <button
+                type="button"
+                onClick={() => update('answerTemplate', DEFAULT_ANSWER_TEMPLATE)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Reset
+              </button>
+            </span>
+            <textarea
+              value={draft.answerTemplate}
+              onChange={(e) => update('answerTemplate', e.target.value)}
+              rows={3}
+              className={`${inputClass} mt-1 resize-none font-mono`}
+            />
+            <span className="text-xs text-slate-500">
+              {'{context}'} becomes the numbered passages and {'{question}'} the question; either is added at the end if missing.
+            </span>
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Context window</span>
+              <input
+                type="number"
+                min={0}
+                step={1024}
+                value={draft.contextWindow || ''}
+                onChange={(e) => update('contextWindow', Math.max(0, Number(e.target.value) || 0))}
+                placeholder={`Auto (${contextWindowFor({ ...draft, contextWindow: 0 })})`}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Answer tokens</span>
+              <input
+                type="number"
+                min={0}
+                step={128}
+                value={draft.maxAnswerTokens}
+                onChange={(e) => update('maxAnswerTokens', Math.max(0, Number(e.target.value) || 0))}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700">Neighbours</span>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={draft.neighbourChunks}
+                onChange={(e) => update('neighbourChunks', Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                title="Chunks on each side of a hit added to its passage while the context window has room"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          </div>
+
+          <div className="pt-4 border-t border-slate-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-slate-800">Retrieval</h3>
+              <button
+                type="button"
+                onClick={() => setRetrievalDraft(DEFAULT_RETRIEVAL_SETTINGS)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                Reset
+              </button>
+            </div>
+            <div className="space-y-3">
+              <label className="block">
+                <span className="text-sm text-slate-700">Fusion</span>
+                <select
+                  value={retrievalDraft.fusion}
+                  onChange={(e) => setRetrievalDraft(prev => ({ ...prev, fusion: e.target.value as FusionMethod }))}
+                  className={`${inputClass} mt-1`}
+                >
+                  {(Object.keys(FUSION_LABELS) as FusionMethod[]).map(method => (
+                    <option key={method} value={method}>{FUSION_LABELS[method]}</option>
+                  ))}
+                </select>
+              </label>
+              {RETRIEVAL_FIELDS.map(({ key, label, min, max, step }) => (
+                <label key={key} className="block">
+                  <span className="text-sm text-slate-700 flex justify-between">
+                    {label}
+                    <span className="text-slate-500">{formatSettingValue(retrievalDraft[key], step)}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={retrievalDraft[key]}
+                    onChange={(e) => setRetrievalDraft(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                    className="w-full mt-1"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-200 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-800">Embeddings</h3>
+            <label className="block">
+              <span className="text-sm text-slate-700">Provider</span>
+              <select
+                value={embeddingDraft.provider}
+                onChange={(e) => handleEmbeddingProviderChange(e.target.value as EmbeddingProviderKind)}
+                className={`${inputClass} mt-1`}
+              >
+                {(Object.keys(EMBEDDING_LABELS) as EmbeddingProviderKind[]).map(kind => (
+                  <option key={kind} value={kind}>{EMBEDDING_LABELS[kind]}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-sm text-slate-700">Base URL</span>
+                <input
+                  type="text"
+                  value={embeddingDraft.baseUrl}
+                  onChange={(e) => setEmbeddingDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                  placeholder={DEFAULT_EMBEDDING_BASE_URLS[embeddingDraft.provider]}
+                  disabled={embeddingDraft.provider === 'hashing'}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm text-slate-700">Model</span>
+                <input
+                  type="text"
+                  value={embeddingDraft.model}
+                  onChange={(e) => setEmbeddingDraft(prev => ({ ...prev, model: e.target.value }))}
+                  disabled={embeddingDraft.provider === 'hashing'}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+            {embeddingDraft.provider === 'openai' && (
+              <label className="block">
+                <span className="text-sm text-slate-700">API key</span>
+                <input
+                  type="password"
+                  value={embeddingDraft.apiKey}
+                  onChange={(e) => setEmbeddingDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+                  placeholder="Optional"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            )}
+            <p className="text-xs text-slate-500">
+              Changing the embedding model re-embeds every document in the background.
+            </p>
+          </div>
+
+          <div className="pt-4 border-t border-slate-200 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-800">Sensitive data</h3>
+            <p className="text-xs text-slate-500">
+              New documents are checked for {BUILT_IN_RULES.map(rule => rule.label.toLowerCase()).join(', ')}.
+              Add patterns of your own, such as employee or case numbers, below.
+            </p>
+            {rulesDraft.length > 0 && (
+              <ul className="space-y-1">
+                {rulesDraft.map(rule => (
+                  <li key={rule.id} className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-700">{rule.label}</span>
+                    <code className="flex-1 min-w-0 truncate text-xs text-slate-500">{rule.pattern}</code>
+                    <button
+                      type="button"
+                      onClick={() => setRulesDraft(prev => prev.filter(r => r.id !== rule.id))}
+                      className="p-1 hover:bg-red-100 rounded text-red-600"
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-start gap-2">
+              <input
+                type="text"
+                value={newRule.label}
+                onChange={(e) => setNewRule(prev => ({ ...prev, label: e.target.value }))}
+                placeholder="Name"
+                className={`${inputClass} w-1/3`}
+              />
+              <div className="flex-1">
+                <input
+                  type="text"
+                  value={newRule.pattern}
+                  onChange={(e) => setNewRule(prev => ({ ...prev, pattern: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && addRule()}
+                  placeholder="Regular expression, e.g. EMP-\d{5}"
+                  className={`${inputClass} font-mono`}
+                />
+                {newRuleError && <p className="mt-1 text-xs text-red-600">{newRuleError}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={addRule}
+                disabled={!newRule.label.trim() || !newRule.pattern || newRuleError !== null}
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:text-slate-300 disabled:hover:bg-transparent"
+                title="Add rule"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
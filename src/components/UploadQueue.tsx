@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, Clock, Loader2, MinusCircle, ShieldAlert } from 'lucide-react';
+import { RedactionAction } from '../lib/redaction';
+import { QueuedUpload, UploadStatus } from '../lib/upload';
+import RedactionReport from './RedactionReport';
+
+interface UploadQueueProps {
+  items: QueuedUpload[];
+  onApprove: (id: string, actions: Record<string, RedactionAction>) => void;
+  onReject: (id: string) => void;
+  onCancelPending: () => void;
+  onClearFinished: () => void;
+  onOpenDocument: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'queued',
+  extracting: 'reading',
+  review: 'needs review',
+  indexing: 'indexing',
+  indexed: 'indexed',
+  skipped: 'skipped',
+  failed: 'failed'
+};
+
+const STATUS_ICONS: Record<UploadStatus, JSX.Element> = {
+  queued: <Clock className="w-3 h-3 text-slate-400 flex-shrink-0" />,
+  extracting: <Loader2 className="w-3 h-3 text-blue-600 animate-spin flex-shrink-0" />,
+  review: <ShieldAlert className="w-3 h-3 text-amber-600 flex-shrink-0" />,
+  indexing: <Loader2 className="w-3 h-3 text-blue-600 animate-spin flex-shrink-0" />,
+  indexed: <CheckCircle className="w-3 h-3 text-green-600 flex-shrink-0" />,
+  skipped: <MinusCircle className="w-3 h-3 text-slate-400 flex-shrink-0" />,
+  failed: <AlertTriangle className="w-3 h-3 text-red-600 flex-shrink-0" />
+};
+
+export default function UploadQueue({ items, onApprove, onReject, onCancelPending, onClearFinished, onOpenDocument }: UploadQueueProps) {
+  // Actions picked in the reports of files waiting for review, by item id
+  const [reviewActions, setReviewActions] = useState<Record<string, Record<string, RedactionAction>>>({});
+  const count = (status: UploadStatus) => items.filter(item => item.status === status).length;
+  const queued = count('queued');
+  const review = count('review');
+  const failed = count('failed');
+  const skipped = count('skipped');
+  const finished = count('indexed') + skipped + failed;
+
+  return (
+    <div className="text-xs bg-white/70 rounded border border-slate-200">
+      <div className="flex items-center gap-2 p-2 border-b border-slate-200">
+        <span className="flex-1 text-slate-700">
+          <strong>{finished}</strong> of <strong>{items.length}</strong> files done
+          {failed > 0 && <span className="text-red-700"> • {failed} failed</span>}
+          {skipped > 0 && <> • {skipped} skipped</>}
+          {review > 0 && <span className="text-amber-700"> • {review} need review</span>}
+        </span>
+        {queued + review > 0 && (
+          <button onClick={onCancelPending} className="text-red-600 hover:underline">
+            Cancel remaining
+          </button>
+        )}
+        {finished > 0 && (
+          <button onClick={onClearFinished} className="text-blue-600 hover:underline">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+        {items.map(item => (
+          <li key={item.id} className="p-2">
+            <div className="flex items-center gap-2">
+              {STATUS_ICONS[item.status]}
+              {item.status === 'indexed' && item.documentId ? (
+                <button
+                  onClick={() => onOpenDocument(item.documentId!)}
+                  className="flex-1 truncate text-left text-slate-700 hover:text-blue-700 hover:underline"
+                  title={item.path}
+                >
+                  {item.path}
+                </button>
+              ) : (
+                <span className="flex-1 truncate text-slate-700" title={item.path}>{item.path}</span>
+              )}
+              <span className={`flex-shrink-0 ${item.status === 'failed' ? 'text-red-700' : 'text-slate-500'}`}>
+                {STATUS_LABELS[item.status]}
+              </span>
+            </div>
+            {item.reason && (
+              <div className={`mt-0.5 pl-5 ${item.status === 'failed' ? 'text-red-700' : 'text-slate-500'}`}>
+                {item.reason}
+              </div>
+            )}
+            {item.status === 'review' && item.findings && (
+              <div className="mt-1 pl-5 space-y-1">
+                <RedactionReport
+                  groups={item.findings}
+                  actions={reviewActions[item.id] ?? {}}
+                  onChange={(ruleId, action) => setReviewActions(prev => ({ ...prev, [item.id]: { ...prev[item.id], [ruleId]: action } }))}
+                />
+                <div className="flex gap-3">
+                  <button onClick={() => onApprove(item.id, reviewActions[item.id] ?? {})} className="text-blue-600 hover:underline">
+                    Add document
+                  </button>
+                  <button onClick={() => onReject(item.id)} className="text-slate-600 hover:underline">
+                    Skip file
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
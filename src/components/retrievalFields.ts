@@ -0,0 +1,25 @@
+import { FusionMethod, RetrievalSettings } from '../lib/search';
+
+// Retrieval settings shared by the settings panel and the retrieval inspector
+
+export type NumericRetrievalKey = {
+  [K in keyof RetrievalSettings]: RetrievalSettings[K] extends number ? K : never;
+}[keyof RetrievalSettings];
+
+export const RETRIEVAL_FIELDS: { key: NumericRetrievalKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'topK', label: 'Passages used (top-K)', min: 1, max: 10, step: 1 },
+  { key: 'minRelevance', label: 'Relevance threshold', min: 0, max: 1, step: 0.05 },
+  { key: 'k1', label: 'BM25 k1 (term saturation)', min: 0, max: 3, step: 0.1 },
+  { key: 'b', label: 'BM25 b (length normalisation)', min: 0, max: 1, step: 0.05 },
+  { key: 'phraseWeight', label: 'Phrase match weight', min: 0, max: 2, step: 0.1 },
+  { key: 'proximityWeight', label: 'Proximity weight', min: 0, max: 2, step: 0.1 },
+  { key: 'denseWeight', label: 'Embedding weight', min: 0, max: 1, step: 0.05 },
+  { key: 'feedbackWeight', label: 'Feedback weight', min: 0, max: 1, step: 0.05 }
+];
+
+export const FUSION_LABELS: Record<FusionMethod, string> = {
+  rrf: 'Reciprocal rank fusion',
+  weighted: 'Weighted score blend'
+};
+
+export const formatSettingValue = (value: number, step: number) => (step >= 1 ? String(value) : value.toFixed(2));
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long a copy button shows its confirmation
+const COPIED_DISPLAY_MS = 1500;
+
+// Copy text to the clipboard and report success briefly, for copy buttons
+export function useClipboard() {
+  const [copied, setCopied] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const copy = useCallback(async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.warn('Failed to copy to the clipboard', error);
+      return;
+    }
+    setCopied(true);
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => setCopied(false), COPIED_DISPLAY_MS);
+  }, []);
+
+  return { copied, copy };
+}
@@ -1,207 +1,815 @@
-import { useState, useCallback } from 'react';
-
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  chunks: string[];
-  uploadedAt: Date;
-  size: number;
-}
-
-interface Source {
-  title: string;
-  content: string;
-  relevance: number;
-}
-
-interface ChatMessage {
-  id: string;
-  content: string;
-  sender: 'user' | 'assistant';
-  timestamp: Date;
-  sources?: Source[];
-}
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  AddDocumentResult,
+  ChatMessage,
+  Conversation,
+  Document,
+  DocumentMetadata,
+  DownvotedAnswer,
+  IngestionStatus,
+  RetrievalDebugResult,
+  Source
+} from '../types';
+import { DEFAULT_LLM_SETTINGS, historyWindow, LlmMessage, LlmSettings } from '../lib/llm';
+import { DEFAULT_RETRIEVAL_SETTINGS, RetrievalScope, RetrievalSettings } from '../lib/search';
+import { createEmbeddingProvider, DEFAULT_EMBEDDING_SETTINGS, EmbeddingSettings } from '../lib/embeddings';
+import { diffRecords, RagStore } from '../lib/storage';
+import { detectLanguage, Language } from '../lib/analysis';
+import { Chunk, ChunkingOptions } from '../lib/chunking';
+import { ExtractedDocument, extractFile, PageSpan, requiresDom } from '../lib/extraction';
+import { CustomRedactionRule, redactionRules } from '../lib/redaction';
+import { CancelledError, createRagWorker, IngestionStage, RagWorkerClient, WorkerPayload, WorkerRequestType, WorkerResult } from '../lib/worker';
+import { hashContent } from '../lib/versioning';
+import { createId } from '../lib/ids';
+import {
+  branchConversation,
+  condenseForSearch,
+  createDocument,
+  createNextVersion,
+  findByTitle,
+  findDuplicate,
+  fitContext,
+  prepareRetrieval,
+  resolveChunking,
+  restoreVersion,
+  showVariant,
+  startVariant,
+  streamAnswer,
+  toCandidates,
+  toSources,
+  withLanguage
+} from '../lib/core';
+import {
+  ConversationExportFormat,
+  createConversationExport,
+  createKnowledgeBaseExport,
+  ExportedFile,
+  ImportMode,
+  ImportResult,
+  parseKnowledgeBaseBundle
+} from '../lib/transfer';
+
+const LLM_SETTINGS_KEY = 'rag-chatbot:llm-settings';
+const RETRIEVAL_SETTINGS_KEY = 'rag-chatbot:retrieval-settings';
+const EMBEDDING_SETTINGS_KEY = 'rag-chatbot:embedding-settings';
+const REDACTION_RULES_KEY = 'rag-chatbot:redaction-rules';
+
+// How long a finished ingestion stays visible in the progress list
+const INGESTION_DONE_DISPLAY_MS = 2000;
+
+const ACTIVE_CONVERSATION_KEY = 'rag-chatbot:active-conversation';
+const DEFAULT_CONVERSATION_TITLE = 'New chat';
+
+// Title a conversation after its first question
+const titleFromQuestion = (question: string): string => {
+  const singleLine = question.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 50 ? `${singleLine.substring(0, 47)}...` : singleLine;
+};
+
+// Earlier turns of a conversation as prompt history, leaving out unfinished answers
+const chatHistory = (previousMessages: ChatMessage[]): LlmMessage[] => historyWindow(
+  previousMessages
+    .filter(m => m.content && !m.isStreaming)
+    .map(m => ({ role: m.sender, content: m.content }))
+);
+
+// Candidates shown by the retrieval inspector
+const MAX_INSPECTED_CANDIDATES = 50;
+
+// An answer rated up vouches for its unmarked sources, but less than an explicit mark
+const IMPLICIT_FEEDBACK_WEIGHT = 0.5;
+
+const loadStoredSettings = <T extends object>(key: string, defaults: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+const loadStoredRules = (): CustomRedactionRule[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REDACTION_RULES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
 
 export function useRAG() {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_CONVERSATION_KEY)
+  );
   const [isLoading, setIsLoading] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(() => loadStoredSettings(LLM_SETTINGS_KEY, DEFAULT_LLM_SETTINGS));
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(() => loadStoredSettings(RETRIEVAL_SETTINGS_KEY, DEFAULT_RETRIEVAL_SETTINGS));
+  const [embeddingSettings, setEmbeddingSettings] = useState<EmbeddingSettings>(() => loadStoredSettings(EMBEDDING_SETTINGS_KEY, DEFAULT_EMBEDDING_SETTINGS));
+  const [customRedactionRules, setCustomRedactionRules] = useState<CustomRedactionRule[]>(loadStoredRules);
+  const [ingestions, setIngestions] = useState<IngestionStatus[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Conversation whose answer is being generated
+  const generatingConversationRef = useRef<string | null>(null);
+  const workerRef = useRef<RagWorkerClient | null>(null);
+  // Worker request currently running for each entry in the progress list
+  const ingestionRequestsRef = useRef(new Map<string, string>());
+  const documentsRef = useRef<Document[]>(documents);
+  documentsRef.current = documents;
+  const storeRef = useRef<RagStore | null>(null);
+  const persistedRef = useRef<{ documents: Document[]; messages: ChatMessage[]; conversations: Conversation[] }>({
+    documents: [],
+    messages: [],
+    conversations: []
+  });
 
-  // Chunk text into smaller pieces for better retrieval
-  const chunkText = (text: string, chunkSize: number = 500, overlap: number = 50): string[] => {
-    const chunks: string[] = [];
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    let currentChunk = '';
-    
-    for (const sentence of sentences) {
-      if (currentChunk.length + sentence.length > chunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        // Keep some overlap
-        const words = currentChunk.split(' ');
-        currentChunk = words.slice(-overlap / 10).join(' ') + ' ' + sentence;
-      } else {
-        currentChunk += (currentChunk ? '. ' : '') + sentence;
+  const embeddingProvider = useMemo(() => createEmbeddingProvider(embeddingSettings), [embeddingSettings]);
+  // Built-in and custom rules for finding sensitive data in new documents
+  const compiledRedactionRules = useMemo(() => redactionRules(customRedactionRules), [customRedactionRules]);
+
+  // Chunking, indexing, embedding and retrieval run in a worker so the UI stays responsive
+  useEffect(() => {
+    const worker = createRagWorker();
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Load the persisted knowledge base and chat history once on startup
+  useEffect(() => {
+    let cancelled = false;
+
+    const hydrate = async () => {
+      try {
+        const store = await RagStore.open();
+        if (cancelled) {
+          store.close();
+          return;
+        }
+        storeRef.current = store;
+
+        const [loadedDocuments, storedMessages, storedConversations] = await Promise.all([
+          store.loadDocuments(),
+          store.loadMessages(),
+          store.loadConversations()
+        ]);
+        if (cancelled) return;
+
+        // Differs from what is stored for documents that predate language detection, so they are saved again
+        const storedDocuments = loadedDocuments.map(withLanguage);
+        workerRef.current?.request('load', storedDocuments.map(doc => ({
+          docId: doc.id,
+          texts: doc.chunks.map(c => c.text),
+          language: doc.language,
+          embeddings: doc.embeddings,
+          embeddingModel: doc.embeddingModel
+        }))).result.catch(error => console.warn('Failed to index stored documents', error));
+        persistedRef.current = { documents: loadedDocuments, messages: storedMessages, conversations: storedConversations };
+        setDocuments(prev => [...storedDocuments, ...prev]);
+        setMessages(prev => [...storedMessages, ...prev]);
+        setConversations(prev => [...storedConversations, ...prev]);
+
+        setActiveConversationId(prev => (
+          prev && storedConversations.some(c => c.id === prev) ? prev : null
+        ));
+
+        // Documents stored before content hashing existed get their hash now
+        const unhashed = storedDocuments.filter(doc => !doc.contentHash);
+        if (unhashed.length > 0) {
+          const hashes = new Map(await Promise.all(unhashed.map(async doc => [doc.id, await hashContent(doc.content)] as const)));
+          if (cancelled) return;
+          setDocuments(prev => prev.map(doc => (hashes.has(doc.id) ? { ...doc, contentHash: hashes.get(doc.id)! } : doc)));
+        }
+      } catch (error) {
+        console.warn('Persistent storage unavailable, keeping data in memory only', error);
+      } finally {
+        if (!cancelled) setIsHydrated(true);
       }
+    };
+
+    hydrate();
+    return () => {
+      cancelled = true;
+      storeRef.current?.close();
+      storeRef.current = null;
+    };
+  }, []);
+
+  // Write every change back to IndexedDB, touching only the records that changed
+  useEffect(() => {
+    if (!isHydrated || !storeRef.current) return;
+    const { put, remove } = diffRecords(persistedRef.current.documents, documents);
+    persistedRef.current.documents = documents;
+    storeRef.current.saveDocuments(put, remove).catch(error => console.warn('Failed to save documents', error));
+  }, [documents, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || !storeRef.current) return;
+    const { put, remove } = diffRecords(persistedRef.current.messages, messages);
+    persistedRef.current.messages = messages;
+    storeRef.current.saveMessages(put, remove).catch(error => console.warn('Failed to save messages', error));
+  }, [messages, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || !storeRef.current) return;
+    const { put, remove } = diffRecords(persistedRef.current.conversations, conversations);
+    persistedRef.current.conversations = conversations;
+    storeRef.current.saveConversations(put, remove).catch(error => console.warn('Failed to save conversations', error));
+  }, [conversations, isHydrated]);
+
+  useEffect(() => {
+    if (activeConversationId) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, activeConversationId);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
     }
-    
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
-    
-    return chunks.length > 0 ? chunks : [text];
-  };
+  }, [activeConversationId]);
+
+  const activeConversation = useMemo(
+    () => conversations.find(c => c.id === activeConversationId) ?? null,
+    [conversations, activeConversationId]
+  );
+
+  const activeMessages = useMemo(
+    () => messages.filter(m => m.conversationId === activeConversationId),
+    [messages, activeConversationId]
+  );
 
-  // Simple similarity scoring based on keyword overlap
-  const calculateSimilarity = (query: string, text: string): number => {
-    const queryWords = query.toLowerCase().split(/\W+/).filter(w => w.length > 2);
-    const textWords = text.toLowerCase().split(/\W+/).filter(w => w.length > 2);
-    
-    const querySet = new Set(queryWords);
-    const textSet = new Set(textWords);
-    
-    const intersection = new Set([...querySet].filter(w => textSet.has(w)));
-    const union = new Set([...querySet, ...textSet]);
-    
-    // Jaccard similarity + keyword frequency boost
-    const jaccard = intersection.size / union.size;
-    
-    // Boost score for exact phrase matches
-    let phraseBoost = 0;
-    const queryPhrases = query.toLowerCase().match(/\b\w+\s+\w+\b/g) || [];
-    for (const phrase of queryPhrases) {
-      if (text.toLowerCase().includes(phrase)) {
-        phraseBoost += 0.3;
+  // Pair each assistant answer with the query it was retrieved for
+  const answeredQuestions = useMemo(() => {
+    const lastQuestion = new Map<string, string>();
+    const answers: { message: ChatMessage; question: string; query: string }[] = [];
+    for (const message of messages) {
+      if (message.sender === 'user') {
+        lastQuestion.set(message.conversationId, message.content);
+      } else {
+        const question = lastQuestion.get(message.conversationId) ?? '';
+        answers.push({ message, question, query: message.searchQuery ?? question });
       }
     }
-    
-    return Math.min(jaccard + phraseBoost, 1);
+    return answers;
+  }, [messages]);
+
+  // Relevance feedback gathered from source marks and answer ratings across all conversations
+  const feedbackJudgements = useMemo(() => answeredQuestions.flatMap(({ message, query }) =>
+    (message.sources ?? []).flatMap(source => {
+      const judgement = { query, docId: source.docId, chunkIndex: source.chunkIndex, version: source.version };
+      if (source.judgement) {
+        return [{ ...judgement, relevant: source.judgement === 'relevant', weight: 1 }];
+      }
+      return message.rating === 'up' ? [{ ...judgement, relevant: true, weight: IMPLICIT_FEEDBACK_WEIGHT }] : [];
+    })
+  ), [answeredQuestions]);
+
+  const downvotedAnswers = useMemo((): DownvotedAnswer[] => answeredQuestions
+    .filter(({ message }) => message.rating === 'down')
+    .map(({ message, question }) => ({
+      message,
+      question,
+      conversation: conversations.find(c => c.id === message.conversationId)
+    }))
+    .reverse(), [answeredQuestions, conversations]);
+
+  useEffect(() => {
+    localStorage.setItem(LLM_SETTINGS_KEY, JSON.stringify(llmSettings));
+  }, [llmSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(RETRIEVAL_SETTINGS_KEY, JSON.stringify(retrievalSettings));
+  }, [retrievalSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(EMBEDDING_SETTINGS_KEY, JSON.stringify(embeddingSettings));
+  }, [embeddingSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(REDACTION_RULES_KEY, JSON.stringify(customRedactionRules));
+  }, [customRedactionRules]);
+
+  // Retrieve relevant chunks for a query; the worker fuses the lexical index with embedding similarity
+  const retrieveRelevantChunks = useCallback(async (query: string, scope?: RetrievalScope): Promise<Source[]> => {
+    const worker = workerRef.current;
+    if (!worker) return [];
+
+    const { request, documentsById } = prepareRetrieval(documents, query, retrievalSettings, feedbackJudgements, scope);
+    return toSources(await worker.request('search', request).result, documentsById);
+  }, [documents, retrievalSettings, feedbackJudgements]);
+
+  // Run retrieval with the current settings and report every candidate, kept or cut
+  const inspectRetrieval = async (query: string, scope?: RetrievalScope): Promise<RetrievalDebugResult> => {
+    const worker = workerRef.current;
+    if (!worker) return { candidates: [], total: 0, outOfScope: 0 };
+
+    const { request, documentsById, outOfScope } = prepareRetrieval(documents, query, retrievalSettings, feedbackJudgements, scope);
+    const { candidates, total } = await worker.request('inspect', { query: request, maxCandidates: MAX_INSPECTED_CANDIDATES }).result;
+    return { total, outOfScope, candidates: toCandidates(candidates, documentsById) };
   };
 
-  // Retrieve relevant chunks for a query
-  const retrieveRelevantChunks = (query: string, topK: number = 3): Source[] => {
-    const allChunks: { chunk: string; docTitle: string; score: number }[] = [];
-    
-    documents.forEach(doc => {
-      doc.chunks.forEach(chunk => {
-        const score = calculateSimilarity(query, chunk);
-        if (score > 0.1) { // Minimum relevance threshold
-          allChunks.push({
-            chunk,
-            docTitle: doc.title,
-            score
-          });
-        }
-      });
+  const updateLlmSettings = useCallback((settings: Partial<LlmSettings>) => {
+    setLlmSettings(prev => ({ ...prev, ...settings }));
+  }, []);
+
+  const updateRetrievalSettings = useCallback((settings: Partial<RetrievalSettings>) => {
+    setRetrievalSettings(prev => ({ ...prev, ...settings }));
+  }, []);
+
+  const updateEmbeddingSettings = useCallback((settings: Partial<EmbeddingSettings>) => {
+    setEmbeddingSettings(prev => ({ ...prev, ...settings }));
+  }, []);
+
+  // Run a worker request while mirroring its progress in the ingestion list under `key`
+  const trackRequest = useCallback(<K extends WorkerRequestType>(
+    key: string,
+    title: string,
+    stage: IngestionStage,
+    type: K,
+    payload: WorkerPayload<K>
+  ): Promise<WorkerResult<K>> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.reject(new CancelledError('The RAG worker is not running'));
+
+    setIngestions(prev => [...prev.filter(i => i.id !== key), { id: key, title, stage, progress: 0 }]);
+    const request = worker.request(type, payload, (nextStage, progress) => {
+      setIngestions(prev => prev.map(i => (i.id === key ? { ...i, stage: nextStage, progress } : i)));
     });
-    
-    // Sort by relevance and take top K
-    return allChunks
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topK)
-      .map(item => ({
-        title: item.docTitle,
-        content: item.chunk,
-        relevance: item.score
-      }));
-  };
+    ingestionRequestsRef.current.set(key, request.id);
+    return request.result.finally(() => {
+      if (ingestionRequestsRef.current.get(key) === request.id) {
+        ingestionRequestsRef.current.delete(key);
+      }
+    });
+  }, []);
 
-  // Generate response using retrieved context
-  const generateResponse = async (query: string, sources: Source[]): Promise<string> => {
-    // Simulate AI response generation
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-    
-    if (sources.length === 0) {
-      return "I don't have enough information in the uploaded documents to answer your question. Please try uploading relevant documents or asking about topics covered in your knowledge base.";
+  // Drop an entry from the progress list, briefly showing it as indexed when it succeeded
+  const finishIngestion = useCallback((key: string, indexed: boolean) => {
+    if (!indexed) {
+      setIngestions(prev => prev.filter(i => i.id !== key));
+      return;
     }
-    
-    const context = sources.map(s => s.content).join('\n\n');
-    
-    // This would typically call an LLM API like OpenAI
-    // For demo purposes, we'll create a mock response
-    const responses = [
-      `Based on the documents you've uploaded, I can provide the following information: ${context.substring(0, 200)}... 
-
-This information comes from ${sources.length} relevant source${sources.length > 1 ? 's' : ''} in your knowledge base. The most relevant match was from "${sources[0].title}" with ${Math.round(sources[0].relevance * 100)}% relevance.`,
-      
-      `According to your uploaded documents, here's what I found: ${context.substring(0, 150)}...
-
-The answer is derived from ${sources.length} document chunk${sources.length > 1 ? 's' : ''}, with the highest relevance score being ${Math.round(sources[0].relevance * 100)}%.`,
-      
-      `I found relevant information in your knowledge base: ${context.substring(0, 180)}...
-
-This response is based on ${sources.length} matching section${sources.length > 1 ? 's' : ''} from your documents, particularly from "${sources[0].title}".`
-    ];
-    
-    return responses[Math.floor(Math.random() * responses.length)];
-  };
+    setIngestions(prev => prev.map(i => (i.id === key ? { ...i, stage: 'indexed', progress: 1 } : i)));
+    setTimeout(() => {
+      setIngestions(prev => prev.filter(i => i.id !== key || i.stage !== 'indexed'));
+    }, INGESTION_DONE_DISPLAY_MS);
+  }, []);
 
-  const addDocument = useCallback((title: string, content: string) => {
-    const chunks = chunkText(content);
-    const newDoc: Document = {
-      id: Date.now().toString(),
-      title,
-      content,
-      chunks,
-      uploadedAt: new Date(),
-      size: content.length
+  const cancelIngestion = useCallback((key: string) => {
+    const requestId = ingestionRequestsRef.current.get(key);
+    if (requestId) {
+      workerRef.current?.cancel(requestId);
+    }
+  }, []);
+
+  // Read an uploaded file into text. DOCX needs the DOM, so it is the one format parsed on the UI thread.
+  const extractDocument = useCallback(async (file: File): Promise<ExtractedDocument> => {
+    if (requiresDom(file.name)) {
+      return extractFile(file);
+    }
+    const key = createId();
+    try {
+      return await trackRequest(key, file.name, 'extracting', 'extract', file);
+    } finally {
+      finishIngestion(key, false);
+    }
+  }, [trackRequest, finishIngestion]);
+
+  // Compute chunk vectors in the background; the document stays searchable lexically meanwhile
+  const embedDocument = useCallback(async (id: string, texts: string[]) => {
+    const title = documentsRef.current.find(doc => doc.id === id)?.title ?? '';
+    // Vectors computed for chunks that have since been replaced are of no use
+    const isCurrent = () => {
+      const chunks = documentsRef.current.find(doc => doc.id === id)?.chunks;
+      return chunks !== undefined && chunks.length === texts.length && chunks.every((c, i) => c.text === texts[i]);
     };
-    
-    setDocuments(prev => [...prev, newDoc]);
+
+    try {
+      const { embeddings, model } = await trackRequest(id, title, 'embedding', 'embed', { docId: id, texts });
+      if (!isCurrent()) return;
+      setDocuments(prev => prev.map(doc => (
+        doc.id === id
+          ? { ...doc, embeddings, embeddingModel: model, embeddingError: undefined }
+          : doc
+      )));
+      finishIngestion(id, true);
+    } catch (error) {
+      if (!isCurrent()) return;
+      const message = error instanceof CancelledError
+        ? 'embedding cancelled'
+        : error instanceof Error ? error.message : 'Embedding failed';
+      setDocuments(prev => prev.map(doc => (doc.id === id ? { ...doc, embeddingError: message } : doc)));
+      // Keyword search still works, so the document counts as indexed
+      finishIngestion(id, true);
+    }
+  }, [trackRequest, finishIngestion]);
+
+  useEffect(() => {
+    workerRef.current?.request('configure', embeddingSettings).result
+      .catch(error => console.warn('Failed to configure embeddings', error));
+  }, [embeddingSettings]);
+
+  // Re-embed documents whose vectors came from a different model
+  useEffect(() => {
+    if (!isHydrated) return;
+    documentsRef.current
+      .filter(doc => doc.embeddingModel !== embeddingProvider.id)
+      .forEach(doc => embedDocument(doc.id, doc.chunks.map(c => c.text)));
+  }, [embeddingProvider, embedDocument, isHydrated]);
+
+  // Chunk and index a document's text in the worker; resolves to null when cancelled
+  const ingestDocument = useCallback(async (
+    docId: string,
+    title: string,
+    content: string,
+    chunking: ChunkingOptions,
+    language: Language,
+    pages?: PageSpan[]
+  ): Promise<Chunk[] | null> => {
+    try {
+      return await trackRequest(docId, title, 'chunking', 'ingest', { docId, content, chunking, pages, language });
+    } catch (error) {
+      finishIngestion(docId, false);
+      if (error instanceof CancelledError) return null;
+      throw error;
+    }
+  }, [trackRequest, finishIngestion]);
+
+  // Apply a document change to state and to the ref right away, so back-to-back uploads
+  // see each other before the next render
+  const commitDocuments = useCallback((update: (prev: Document[]) => Document[]) => {
+    documentsRef.current = update(documentsRef.current);
+    setDocuments(update);
   }, []);
 
+  const addDocument = useCallback(async (
+    title: string,
+    content: string,
+    metadata: DocumentMetadata = {}
+  ): Promise<AddDocumentResult> => {
+    const chunking = resolveChunking(metadata);
+    const contentHash = await hashContent(content);
+
+    const duplicate = findDuplicate(documentsRef.current, contentHash);
+    if (duplicate) {
+      return { status: 'duplicate', document: duplicate };
+    }
+
+    const existing = findByTitle(documentsRef.current, title);
+    const docId = existing?.id ?? createId();
+    const { language } = detectLanguage(content);
+    const chunks = await ingestDocument(docId, title, content, chunking, language, metadata.pages);
+    if (!chunks) {
+      return { status: 'cancelled' };
+    }
+
+    // Same title, different content: the upload becomes the next version of that document.
+    // Look it up again, as it may have changed while the worker was busy.
+    const previous = documentsRef.current.find(doc => doc.id === docId);
+    const ingested = { content, contentHash, chunks, chunking, language };
+    if (previous) {
+      const updated = createNextVersion(previous, ingested, metadata);
+      commitDocuments(prev => prev.map(doc => (doc.id === docId ? updated : doc)));
+      embedDocument(docId, chunks.map(c => c.text));
+      return { status: 'updated', document: updated };
+    }
+
+    const newDoc = createDocument(docId, title, ingested, metadata);
+    commitDocuments(prev => [...prev, newDoc]);
+    embedDocument(docId, chunks.map(c => c.text));
+    return { status: 'added', document: newDoc };
+  }, [commitDocuments, ingestDocument, embedDocument]);
+
+  // Restore an earlier version as a new version on top of the history
+  const rollbackDocument = useCallback(async (id: string, version: number) => {
+    const current = documentsRef.current.find(d => d.id === id);
+    const target = current?.versions.find(v => v.version === version);
+    if (!current || !target) return;
+
+    const { language } = detectLanguage(target.content);
+    const chunks = await ingestDocument(id, current.title, target.content, target.chunking, language, target.pages);
+    const doc = documentsRef.current.find(d => d.id === id);
+    if (!chunks || !doc) return;
+
+    const restored = restoreVersion(doc, target, chunks, language);
+    commitDocuments(prev => prev.map(d => (d.id === id ? restored : d)));
+    embedDocument(id, chunks.map(c => c.text));
+  }, [commitDocuments, ingestDocument, embedDocument]);
+
   const deleteDocument = useCallback((id: string) => {
-    setDocuments(prev => prev.filter(doc => doc.id !== id));
-  }, []);
+    cancelIngestion(id);
+    workerRef.current?.request('remove', id).result.catch(error => console.warn('Failed to unindex document', error));
+    commitDocuments(prev => prev.filter(doc => doc.id !== id));
+    setIngestions(prev => prev.filter(i => i.id !== id));
+    // An emptied list stays in the scope so the conversation searches nothing rather than everything
+    setConversations(prev => prev.map(c => (
+      c.scope?.documentIds?.includes(id)
+        ? { ...c, scope: { ...c.scope, documentIds: c.scope.documentIds.filter(docId => docId !== id) } }
+        : c
+    )));
+  }, [cancelIngestion, commitDocuments]);
 
-  const sendMessage = useCallback(async (content: string) => {
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      content,
-      sender: 'user',
-      timestamp: new Date()
+  const exportKnowledgeBase = useCallback((): ExportedFile => {
+    // API keys stay on this machine
+    const { provider, baseUrl, model } = embeddingSettings;
+    return createKnowledgeBaseExport(documentsRef.current, {
+      retrieval: retrievalSettings,
+      embedding: { provider, baseUrl, model }
+    });
+  }, [retrievalSettings, embeddingSettings]);
+
+  const importKnowledgeBase = useCallback(async (text: string, mode: ImportMode): Promise<ImportResult> => {
+    const bundle = await parseKnowledgeBaseBundle(text);
+    const current = mode === 'replace' ? [] : documentsRef.current;
+
+    // Merging never overwrites: documents already present by id, content or title are left alone
+    const ids = new Set(current.map(doc => doc.id));
+    const hashes = new Set(current.map(doc => doc.contentHash));
+    const titles = new Set(current.map(doc => doc.title.toLowerCase()));
+    const added = bundle.documents.filter(doc => {
+      const isNew = !ids.has(doc.id) && !hashes.has(doc.contentHash) && !titles.has(doc.title.toLowerCase());
+      ids.add(doc.id);
+      hashes.add(doc.contentHash);
+      titles.add(doc.title.toLowerCase());
+      return isNew;
+    }).map(withLanguage);
+
+    const worker = workerRef.current;
+    if (mode === 'replace') {
+      documentsRef.current.forEach(doc => {
+        cancelIngestion(doc.id);
+        worker?.request('remove', doc.id).result.catch(error => console.warn('Failed to unindex document', error));
+      });
+      setIngestions([]);
+      const keptIds = new Set(added.map(doc => doc.id));
+      setConversations(prev => prev.map(c => (
+        c.scope?.documentIds?.some(id => !keptIds.has(id))
+          ? { ...c, scope: { ...c.scope, documentIds: c.scope.documentIds.filter(id => keptIds.has(id)) } }
+          : c
+      )));
+    }
+
+    worker?.request('load', added.map(doc => ({
+      docId: doc.id,
+      texts: doc.chunks.map(c => c.text),
+      language: doc.language,
+      embeddings: doc.embeddings,
+      embeddingModel: doc.embeddingModel
+    }))).result.catch(error => console.warn('Failed to index imported documents', error));
+    commitDocuments(prev => (mode === 'replace' ? added : [...prev, ...added]));
+
+    let embeddingModel = embeddingProvider.id;
+    if (mode === 'replace') {
+      setRetrievalSettings({ ...DEFAULT_RETRIEVAL_SETTINGS, ...bundle.settings.retrieval });
+      const embedding = { ...DEFAULT_EMBEDDING_SETTINGS, ...bundle.settings.embedding, apiKey: embeddingSettings.apiKey };
+      embeddingModel = createEmbeddingProvider(embedding).id;
+      if (embeddingModel !== embeddingProvider.id) {
+        // Switching models re-embeds every document that needs it
+        setEmbeddingSettings(embedding);
+        return { added: added.length, skipped: bundle.documents.length - added.length };
+      }
+    }
+
+    added
+      .filter(doc => doc.embeddingModel !== embeddingModel)
+      .forEach(doc => embedDocument(doc.id, doc.chunks.map(c => c.text)));
+    return { added: added.length, skipped: bundle.documents.length - added.length };
+  }, [cancelIngestion, commitDocuments, embedDocument, embeddingProvider, embeddingSettings]);
+
+  const createConversation = useCallback((): string => {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: createId(),
+      title: DEFAULT_CONVERSATION_TITLE,
+      createdAt: now,
+      updatedAt: now
     };
-    
-    setMessages(prev => [...prev, userMessage]);
+    setConversations(prev => [...prev, conversation]);
+    setActiveConversationId(conversation.id);
+    return conversation.id;
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, title } : c)));
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    if (generatingConversationRef.current === id) abortControllerRef.current?.abort();
+    setConversations(prev => prev.filter(c => c.id !== id));
+    setMessages(prev => prev.filter(m => m.conversationId !== id));
+    setActiveConversationId(prev => (prev === id ? null : prev));
+  }, []);
+
+  const switchConversation = useCallback((id: string) => {
+    setActiveConversationId(id);
+  }, []);
+
+  // Restrict the active conversation to part of the knowledge base, or pass undefined for everything
+  const setConversationScope = useCallback((scope: RetrievalScope | undefined) => {
+    const conversationId = activeConversationId ?? createConversation();
+    setConversations(prev => prev.map(c => (c.id === conversationId ? { ...c, scope } : c)));
+  }, [activeConversationId, createConversation]);
+
+  const updateDocumentMetadata = useCallback((id: string, metadata: Pick<Document, 'collection' | 'tags'>) => {
+    setDocuments(prev => prev.map(doc => (doc.id === id ? { ...doc, ...metadata } : doc)));
+  }, []);
+
+  const updateMessage = useCallback((id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.map(m => (m.id === id ? update(m) : m)));
+  }, []);
+
+  // Retrieve sources for a question and stream the answer into an existing assistant message
+  const generateAnswer = useCallback(async (
+    conversationId: string,
+    assistantId: string,
+    question: string,
+    history: LlmMessage[],
+    scope?: RetrievalScope
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    generatingConversationRef.current = conversationId;
     setIsLoading(true);
-    
+
     try {
-      // Retrieve relevant chunks
-      const sources = retrieveRelevantChunks(content);
-      
-      // Generate response
-      const response = await generateResponse(content, sources);
-      
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        content: response,
-        sender: 'assistant',
-        timestamp: new Date(),
-        sources: sources.length > 0 ? sources : undefined
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
+      const searchQuery = await condenseForSearch(question, history, llmSettings, controller.signal);
+      if (searchQuery !== question) {
+        updateMessage(assistantId, m => ({ ...m, searchQuery }));
+      }
+
+      // Retrieve relevant chunks and show the ones that fit in the prompt before generation starts
+      const retrieved = await retrieveRelevantChunks(searchQuery, scope);
+      const documentsById = new Map(documents.map(doc => [doc.id, doc]));
+      const { passages, sources } = fitContext(question, retrieved, documentsById, history, llmSettings);
+      if (sources.length > 0) {
+        updateMessage(assistantId, m => ({ ...m, sources }));
+      }
+
+      for await (const token of streamAnswer(question, passages, history, llmSettings, controller.signal)) {
+        updateMessage(assistantId, m => ({ ...m, content: m.content + token }));
+      }
+
+      updateMessage(assistantId, m => ({ ...m, isStreaming: false }));
     } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        content: "I apologize, but I encountered an error while processing your question. Please try again.",
-        sender: 'assistant',
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        // Keep whatever was generated before the user pressed Stop
+        updateMessage(assistantId, m => ({ ...m, isStreaming: false, stopped: true }));
+      } else {
+        const detail = error instanceof Error ? ` (${error.message})` : '';
+        updateMessage(assistantId, m => ({
+          ...m,
+          content: `I apologize, but I encountered an error while processing your question${detail}. Please try again.`,
+          isStreaming: false
+        }));
+      }
     } finally {
+      abortControllerRef.current = null;
+      generatingConversationRef.current = null;
       setIsLoading(false);
     }
-  }, [documents]);
+  }, [documents, llmSettings, retrieveRelevantChunks, updateMessage]);
+
+  // Add a question and its answer to a conversation that already holds `previousMessages`
+  const askQuestion = useCallback(async (conversationId: string, previousMessages: ChatMessage[], content: string, scope?: RetrievalScope) => {
+    const isFirstQuestion = previousMessages.length === 0;
+    setConversations(prev => prev.map(c => (
+      c.id === conversationId
+        ? {
+            ...c,
+            title: isFirstQuestion && c.title === DEFAULT_CONVERSATION_TITLE ? titleFromQuestion(content) : c.title,
+            updatedAt: new Date()
+          }
+        : c
+    )));
+
+    const userMessage: ChatMessage = {
+      id: createId(),
+      conversationId,
+      content,
+      sender: 'user',
+      timestamp: new Date()
+    };
+
+    // Create the assistant message up front so tokens can stream into it
+    const assistantMessage: ChatMessage = {
+      id: createId(),
+      conversationId,
+      content: '',
+      sender: 'assistant',
+      timestamp: new Date(),
+      isStreaming: true
+    };
+
+    setMessages(prev => [...prev, userMessage, assistantMessage]);
+    await generateAnswer(conversationId, assistantMessage.id, content, chatHistory(previousMessages), scope);
+  }, [generateAnswer]);
+
+  const sendMessage = useCallback(async (content: string) => {
+    const conversationId = activeConversationId ?? createConversation();
+    const conversation = conversations.find(c => c.id === conversationId);
+    await askQuestion(conversationId, messages.filter(m => m.conversationId === conversationId), content, conversation?.scope);
+  }, [messages, conversations, activeConversationId, createConversation, askQuestion]);
+
+  // Answer a question again. Earlier answers are kept as variants to page through.
+  const regenerateMessage = useCallback(async (id: string) => {
+    const message = messages.find(m => m.id === id);
+    if (!message || message.sender !== 'assistant' || isLoading) return;
+    const conversationMessages = messages.filter(m => m.conversationId === message.conversationId);
+    const index = conversationMessages.indexOf(message);
+    const questionIndex = conversationMessages.slice(0, index).map(m => m.sender).lastIndexOf('user');
+    if (questionIndex === -1) return;
+
+    const conversation = conversations.find(c => c.id === message.conversationId);
+    updateMessage(id, startVariant);
+    await generateAnswer(
+      message.conversationId,
+      id,
+      conversationMessages[questionIndex].content,
+      chatHistory(conversationMessages.slice(0, questionIndex)),
+      conversation?.scope
+    );
+  }, [messages, conversations, isLoading, updateMessage, generateAnswer]);
+
+  const selectAnswerVariant = useCallback((id: string, index: number) => {
+    setMessages(prev => prev.map(m => (m.id === id ? showVariant(m, index) : m)));
+  }, []);
+
+  // Ask an edited version of an earlier question in a branch of its conversation
+  const editAndResend = useCallback(async (id: string, content: string) => {
+    const message = messages.find(m => m.id === id);
+    const conversation = conversations.find(c => c.id === message?.conversationId);
+    if (!message || !conversation || isLoading) return;
+
+    const branch = branchConversation(conversation, messages.filter(m => m.conversationId === conversation.id), id);
+    setConversations(prev => [...prev, branch.conversation]);
+    setMessages(prev => [...prev, ...branch.messages]);
+    setActiveConversationId(branch.conversation.id);
+    await askQuestion(branch.conversation.id, branch.messages, content, branch.conversation.scope);
+  }, [messages, conversations, isLoading, askQuestion]);
+
+  const exportConversation = useCallback((id: string, format: ConversationExportFormat): ExportedFile | null => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return null;
+    return createConversationExport(conversation, messages.filter(m => m.conversationId === id), format);
+  }, [conversations, messages]);
+
+  const rateMessage = useCallback((id: string, rating: ChatMessage['rating']) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, rating } : m)));
+  }, []);
+
+  const judgeSource = useCallback((messageId: string, sourceId: number, judgement: Source['judgement']) => {
+    setMessages(prev => prev.map(m => (
+      m.id === messageId && m.sources
+        ? { ...m, sources: m.sources.map(s => (s.id === sourceId ? { ...s, judgement } : s)) }
+        : m
+    )));
+  }, []);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   return {
     documents,
-    messages,
+    messages: activeMessages,
+    conversations,
+    activeConversation,
     isLoading,
+    isHydrated,
+    llmSettings,
+    updateLlmSettings,
+    retrievalSettings,
+    updateRetrievalSettings,
+    embeddingSettings,
+    updateEmbeddingSettings,
+    redactionRules: compiledRedactionRules,
+    customRedactionRules,
+    updateCustomRedactionRules: setCustomRedactionRules,
+    ingestions,
+    extractDocument,
     addDocument,
+    rollbackDocument,
+    cancelIngestion,
+    exportKnowledgeBase,
+    importKnowledgeBase,
+    exportConversation,
+    inspectRetrieval,
+    downvotedAnswers,
+    rateMessage,
+    judgeSource,
     deleteDocument,
-    sendMessage
+    updateDocumentMetadata,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+    switchConversation,
+    setConversationScope,
+    sendMessage,
+    regenerateMessage,
+    selectAnswerVariant,
+    editAndResend,
+    stopGeneration
   };
 }
\ No newline at end of file
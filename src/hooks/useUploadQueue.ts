@@ -0,0 +1,201 @@
+import { useCallback, useRef, useState } from 'react';
+import { AddDocumentResult, Document, DocumentMetadata } from '../types';
+import { ChunkingOptions } from '../lib/chunking';
+import { findByTitle } from '../lib/core';
+import { ExtractedDocument, isSupportedFile } from '../lib/extraction';
+import { applyRedactions, formatDecisions, groupFindings, RedactionAction, RedactionRule, scanText } from '../lib/redaction';
+import { createId } from '../lib/ids';
+import { expandArchive, ExistingFileRule, isArchive, QueuedUpload, titleForPath, UploadEntry } from '../lib/upload';
+import { CancelledError } from '../lib/worker';
+
+interface UploadQueueOptions {
+  documents: Document[];
+  redactionRules: RedactionRule[];
+  onExtract: (file: File) => Promise<ExtractedDocument>;
+  onUpload: (title: string, content: string, metadata?: DocumentMetadata) => Promise<AddDocumentResult>;
+}
+
+export interface EnqueueOptions {
+  existing: ExistingFileRule;
+  chunking: ChunkingOptions;
+}
+
+interface PendingUpload {
+  id: string;
+  entry: UploadEntry;
+  options: EnqueueOptions;
+  // Set once the user has chosen what to do with the sensitive data in the file
+  reviewed?: { extracted: ExtractedDocument; actions: Record<string, RedactionAction> };
+}
+
+// A file with sensitive data, extracted and set aside until the user reviews it
+interface HeldUpload extends PendingUpload {
+  extracted: ExtractedDocument;
+}
+
+// The path and title a file of the current run is added under
+interface Claim {
+  path: string;
+  title: string;
+}
+
+const isFinished = (item: QueuedUpload) =>
+  item.status !== 'queued' && item.status !== 'extracting' && item.status !== 'review' && item.status !== 'indexing';
+
+// Uploads many files one after another, without the confirmation form a single upload goes through.
+// Archives are unpacked as they are queued; each file keeps its path as document metadata.
+// Files with sensitive data wait for review while the rest of the queue goes on.
+export function useUploadQueue({ documents, redactionRules, onExtract, onUpload }: UploadQueueOptions) {
+  const [items, setItems] = useState<QueuedUpload[]>([]);
+  const pendingRef = useRef<PendingUpload[]>([]);
+  const heldRef = useRef(new Map<string, HeldUpload>());
+  const isRunningRef = useRef(false);
+  // Files added earlier in the run may not have reached `documents` yet, so their paths and titles
+  // are kept here too, by item id
+  const claimsRef = useRef(new Map<string, Claim>());
+  const documentsRef = useRef<Document[]>(documents);
+  documentsRef.current = documents;
+
+  const update = useCallback((id: string, patch: Partial<QueuedUpload>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const process = useCallback(async ({ id, entry, options, reviewed }: PendingUpload) => {
+    const title = titleForPath(entry.path);
+    const existing = documentsRef.current.find(doc => doc.relativePath === entry.path) ?? findByTitle(documentsRef.current, title);
+    const claimed = [...claimsRef.current].find(([claimId, claim]) =>
+      claimId !== id && (claim.path === entry.path || claim.title.toLowerCase() === title.toLowerCase())
+    )?.[1];
+    if (existing && options.existing === 'skip') {
+      update(id, { status: 'skipped', reason: `Already in the knowledge base as "${existing.title}"`, documentId: existing.id });
+      return;
+    }
+    if (claimed && options.existing === 'skip') {
+      update(id, { status: 'skipped', reason: `Already in this upload as "${claimed.title}"` });
+      return;
+    }
+
+    // Overwriting goes through the existing document's title, so the file becomes its next version
+    const uploadTitle = existing?.title ?? claimed?.title ?? title;
+    claimsRef.current.set(id, { path: entry.path, title: uploadTitle });
+    const release = () => claimsRef.current.delete(id);
+    update(id, { status: reviewed ? 'indexing' : 'extracting' });
+    try {
+      const extracted = reviewed?.extracted ?? await onExtract(entry.file);
+      const groups = groupFindings(scanText(extracted.content, redactionRules), redactionRules);
+      if (!reviewed && groups.length > 0) {
+        heldRef.current.set(id, { id, entry, options, extracted });
+        update(id, { status: 'review', findings: groups });
+        return;
+      }
+
+      update(id, { status: 'indexing', findings: undefined });
+      const redacted = applyRedactions(extracted.content, groups, reviewed?.actions ?? {}, extracted.pages);
+      const redaction = redacted.decisions.length > 0 ? redacted.decisions : undefined;
+      const result = await onUpload(uploadTitle, redacted.content, {
+        fileName: extracted.fileName,
+        relativePath: entry.path,
+        pages: redacted.pages,
+        chunking: { ...options.chunking, format: extracted.format },
+        redaction
+      });
+      if (result.status === 'cancelled') {
+        release();
+        update(id, { status: 'skipped', reason: 'Cancelled' });
+      } else if (result.status === 'duplicate') {
+        release();
+        update(id, { status: 'skipped', reason: `Identical to "${result.document.title}"`, documentId: result.document.id });
+      } else {
+        update(id, { status: 'indexed', documentId: result.document.id, reason: redaction && formatDecisions(redaction) });
+      }
+    } catch (error) {
+      release();
+      if (error instanceof CancelledError) {
+        update(id, { status: 'skipped', reason: 'Cancelled' });
+      } else {
+        update(id, { status: 'failed', reason: error instanceof Error ? error.message : 'Could not read file' });
+      }
+    }
+  }, [redactionRules, onExtract, onUpload, update]);
+
+  // One file at a time, as the worker ingests one document at a time anyway
+  const run = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    // Between runs the documents have caught up; only files still waiting for review keep their claim
+    claimsRef.current.forEach((_, id) => {
+      if (!heldRef.current.has(id)) claimsRef.current.delete(id);
+    });
+    try {
+      for (let next = pendingRef.current.shift(); next; next = pendingRef.current.shift()) {
+        await process(next);
+      }
+    } finally {
+      isRunningRef.current = false;
+    }
+  }, [process]);
+
+  const enqueue = useCallback(async (entries: UploadEntry[], options: EnqueueOptions) => {
+    const queue = (entry: UploadEntry, fromArchive: boolean): QueuedUpload => {
+      const id = createId();
+      if (fromArchive && isArchive(entry.path)) {
+        return { id, path: entry.path, status: 'skipped', reason: 'Archives inside archives are not unpacked' };
+      }
+      if (!isSupportedFile(entry.path)) {
+        return { id, path: entry.path, status: 'skipped', reason: 'Unsupported file type' };
+      }
+      pendingRef.current.push({ id, entry, options });
+      return { id, path: entry.path, status: 'queued' };
+    };
+
+    const files = entries.filter(entry => !isArchive(entry.path)).map(entry => queue(entry, false));
+    setItems(prev => [...prev, ...files]);
+    run();
+
+    for (const archive of entries.filter(entry => isArchive(entry.path))) {
+      // The archive stands in for its files while it is unpacked
+      const id = createId();
+      setItems(prev => [...prev, { id, path: archive.path, status: 'extracting' }]);
+      try {
+        const unpacked = (await expandArchive(archive)).map(entry => queue(entry, true));
+        setItems(prev => prev.flatMap(item => (item.id === id ? unpacked : [item])));
+        run();
+      } catch (error) {
+        update(id, { status: 'failed', reason: error instanceof Error ? error.message : 'Could not read archive' });
+      }
+    }
+  }, [run, update]);
+
+  // Add a file held for review, with the action chosen per rule; its place is at the front of the queue
+  const approve = useCallback((id: string, actions: Record<string, RedactionAction>) => {
+    const held = heldRef.current.get(id);
+    if (!held) return;
+    heldRef.current.delete(id);
+    pendingRef.current.unshift({ id, entry: held.entry, options: held.options, reviewed: { extracted: held.extracted, actions } });
+    update(id, { status: 'queued', findings: undefined });
+    run();
+  }, [run, update]);
+
+  const reject = useCallback((id: string) => {
+    if (!heldRef.current.delete(id)) return;
+    claimsRef.current.delete(id);
+    update(id, { status: 'skipped', reason: 'Not added after review', findings: undefined });
+  }, [update]);
+
+  // Drop files that have not started or wait for review; the one in progress can be cancelled from the ingestion list
+  const cancelPending = useCallback(() => {
+    const cancelled = new Set([...pendingRef.current.map(pending => pending.id), ...heldRef.current.keys()]);
+    pendingRef.current = [];
+    heldRef.current.forEach((_, id) => claimsRef.current.delete(id));
+    heldRef.current.clear();
+    setItems(prev => prev.map(item => (
+      cancelled.has(item.id) ? { ...item, status: 'skipped', reason: 'Cancelled', findings: undefined } : item
+    )));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => !isFinished(item)));
+  }, []);
+
+  return { items, enqueue, approve, reject, cancelPending, clearFinished };
+}
@@ -0,0 +1,53 @@
+import { ENGLISH_STOPWORDS, stemEnglish } from './english';
+import { FRENCH_STOPWORDS, stemFrench } from './french';
+import { foldAccents } from './normalize';
+import { CJK_CHARACTER, segmentWords } from './segment';
+import { Analyzer, Language, Token, TokenFilter } from './types';
+
+// Lowercase and strip accents, so queries match however the text was typed
+export const foldFilter: TokenFilter = term => foldAccents(term);
+
+// Lone letters carry no meaning on their own; digits and CJK characters do
+export const minLengthFilter: TokenFilter = term =>
+  term.length > 1 || /\d/.test(term) || CJK_CHARACTER.test(term) ? term : null;
+
+// Compares folded forms, so it belongs after `foldFilter`
+export const stopwordFilter = (words: string[]): TokenFilter => {
+  const stopwords = new Set(words.map(foldAccents));
+  return term => (stopwords.has(term) ? null : term);
+};
+
+export const stemFilter = (stem: (term: string) => string): TokenFilter => term => stem(term);
+
+// Segment text into words and run each through the filters in order. Dropped words still
+// advance the position, so phrase distances stay exact.
+export const createAnalyzer = (language: Language, filters: TokenFilter[]): Analyzer => ({
+  language,
+  analyze: text => {
+    const tokens: Token[] = [];
+    segmentWords(text).forEach((word, position) => {
+      let term: string | null = word;
+      for (const filter of filters) {
+        term = filter(term);
+        if (term === null) return;
+      }
+      tokens.push({ term, position });
+    });
+    return tokens;
+  }
+});
+
+const ANALYZERS: Record<Language, Analyzer> = {
+  en: createAnalyzer('en', [foldFilter, minLengthFilter, stopwordFilter(ENGLISH_STOPWORDS), stemFilter(stemEnglish)]),
+  fr: createAnalyzer('fr', [foldFilter, minLengthFilter, stopwordFilter(FRENCH_STOPWORDS), stemFilter(stemFrench)]),
+  // Without a known language, stopwords and stemming would do more harm than good
+  und: createAnalyzer('und', [foldFilter, minLengthFilter])
+};
+
+export const getAnalyzer = (language: Language): Analyzer => ANALYZERS[language];
+
+// Swap in a different pipeline for a language, e.g. with domain stopwords or a stricter stemmer.
+// Documents already indexed keep the terms of the analyzer they were indexed with.
+export const registerAnalyzer = (analyzer: Analyzer): void => {
+  ANALYZERS[analyzer.language] = analyzer;
+};
@@ -0,0 +1,59 @@
+import { ENGLISH_STOPWORDS } from './english';
+import { FRENCH_STOPWORDS } from './french';
+import { foldAccents } from './normalize';
+import { CJK_CHARACTER, segmentWords } from './segment';
+import { LanguageDetection } from './types';
+
+// Long documents are judged on a few slices spread through the text
+const SAMPLE_SLICE = 4000;
+const SAMPLE_SLICES = 3;
+
+// Text where this share of words is CJK is left undetermined rather than forced into English or French
+const MAX_CJK_SHARE = 0.3;
+
+// Accented letters are a weaker signal than a stopword: English text quotes French names too
+const ACCENT_WEIGHT = 0.25;
+const FRENCH_ACCENT = /[éèêëàâçùûôîïœ]/;
+
+const fold = (words: string[]) => new Set(words.map(foldAccents));
+const englishWords = fold(ENGLISH_STOPWORDS);
+const frenchWords = fold(FRENCH_STOPWORDS);
+// Words such as "a", "on" or "me" exist in both languages and say nothing
+for (const word of [...englishWords]) {
+  if (frenchWords.delete(word)) englishWords.delete(word);
+}
+
+const sample = (text: string): string => {
+  if (text.length <= SAMPLE_SLICE * SAMPLE_SLICES) return text;
+  const step = (text.length - SAMPLE_SLICE) / (SAMPLE_SLICES - 1);
+  return Array.from({ length: SAMPLE_SLICES }, (_, i) => {
+    const start = Math.round(i * step);
+    return text.slice(start, start + SAMPLE_SLICE);
+  }).join(' ');
+};
+
+// Guess the language from the share of its stopwords among the words, helped by French accents.
+// Works from a single short question upwards; text with no telling words is 'und'.
+export const detectLanguage = (text: string): LanguageDetection => {
+  const words = segmentWords(sample(text)).map(word => word.toLowerCase());
+  if (words.length === 0) return { language: 'und', confidence: 0 };
+
+  const cjk = words.filter(word => CJK_CHARACTER.test(word)).length;
+  if (cjk / words.length > MAX_CJK_SHARE) return { language: 'und', confidence: cjk / words.length };
+
+  let english = 0;
+  let french = 0;
+  for (const word of words) {
+    const folded = foldAccents(word);
+    if (englishWords.has(folded)) english++;
+    if (frenchWords.has(folded)) french++;
+    else if (FRENCH_ACCENT.test(word)) french += ACCENT_WEIGHT;
+  }
+
+  const best = Math.max(english, french);
+  if (best === 0 || english === french) return { language: 'und', confidence: 0 };
+  return {
+    language: english > french ? 'en' : 'fr',
+    confidence: (best - Math.min(english, french)) / best
+  };
+};
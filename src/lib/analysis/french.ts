@@ -0,0 +1,56 @@
+export const FRENCH_STOPWORDS = [
+  'à', 'au', 'aux', 'avec', 'ce', 'ces', 'cet', 'cette', 'comme', 'dans', 'de', 'des', 'du', 'elle', 'elles',
+  'en', 'entre', 'est', 'et', 'été', 'être', 'eu', 'eux', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'leurs',
+  'lui', 'ma', 'mais', 'me', 'même', 'mes', 'moi', 'mon', 'ne', 'ni', 'nos', 'notre', 'nous', 'on', 'ont',
+  'ou', 'où', 'par', 'pas', 'plus', 'pour', 'qu', 'quand', 'que', 'quel', 'quelle', 'quels', 'quelles', 'qui',
+  'sa', 'sans', 'se', 'ses', 'si', 'son', 'sont', 'sous', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tous',
+  'tout', 'toute', 'toutes', 'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y',
+  'ai', 'as', 'avons', 'avez', 'avait', 'avaient', 'était', 'étaient', 'sera', 'seront', 'serait', 'soit',
+  'suis', 'es', 'sommes', 'êtes', 'fait', 'peut', 'peuvent', 'aussi', 'alors', 'donc', 'car', 'très'
+];
+
+// Light stemmer in the spirit of Savoy's French stemmer: removes plural and feminine endings and the
+// most common derivational and verb suffixes, so "données", "donner" and "donnée" meet at "donn".
+// Works on accent-folded terms.
+
+const VOWELS = /[aeiouy]/;
+
+// Suffixes are only removed when at least this many letters remain
+const MIN_STEM = 3;
+
+// Longest first, so "issement" wins over "ement"; plurals are already gone when these apply
+const DERIVATIONAL = [
+  'issement', 'atrice', 'ateur', 'ation', 'ement', 'ence', 'ance', 'isme', 'iste', 'able', 'ible', 'ment',
+  'euse', 'eur', 'ite', 'ive', 'if'
+];
+
+const INFLECTIONAL = [
+  'eraient', 'erait', 'eron', 'erez', 'erai', 'aient', 'era', 'ait', 'ais', 'ante', 'ant', 'ee', 'er', 'ez',
+  'ie', 'e', 'i'
+];
+
+const removeSuffix = (word: string, suffixes: string[]): string => {
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      // Short stems like "ut" (from "ute") would conflate unrelated words
+      return stem.length >= MIN_STEM && VOWELS.test(stem) ? stem : word;
+    }
+  }
+  return word;
+};
+
+export const stemFrench = (term: string): string => {
+  if (term.length <= MIN_STEM || !/^[a-z]+$/.test(term)) return term;
+  let word = term;
+
+  // Plurals: "journaux" → "journal", "donnees" → "donnee"
+  if (word.endsWith('aux') && word.length > 4) {
+    word = word.slice(0, -3) + 'al';
+  } else if ((word.endsWith('s') || word.endsWith('x')) && !word.endsWith('ss') && word.length > 4) {
+    word = word.slice(0, -1);
+  }
+
+  const derived = removeSuffix(word, DERIVATIONAL);
+  return derived !== word ? derived : removeSuffix(word, INFLECTIONAL);
+};
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './analyzer';
+export { detectLanguage } from './detect';
+export { foldAccents } from './normalize';
+export { segmentWords } from './segment';
+export { ENGLISH_STOPWORDS, stemEnglish } from './english';
+export { FRENCH_STOPWORDS, stemFrench } from './french';
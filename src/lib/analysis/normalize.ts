@@ -0,0 +1,14 @@
+// Letters that do not decompose into a base letter and a mark
+const LIGATURES: Record<string, string> = { œ: 'oe', æ: 'ae', ß: 'ss', ø: 'o', ł: 'l', đ: 'd', ı: 'i' };
+const LIGATURE = /[œæßøłđı]/g;
+// Marks on Latin letters; CJK and other scripts keep theirs, as they can change the character
+const LATIN_MARK = /(?<=[a-z])\p{M}+/gu;
+
+// "Réponse", "reponse" and "RÉPONSE" all fold to "reponse"
+export const foldAccents = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(LATIN_MARK, '')
+    .replace(LIGATURE, char => LIGATURES[char])
+    .normalize('NFC');
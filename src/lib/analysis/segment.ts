@@ -0,0 +1,34 @@
+// Letters and digits of any script, with their combining marks
+const WORD = /[\p{L}\p{N}\p{M}]+/gu;
+// Scripts written without spaces between words
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+
+export const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Overlapping character pairs stand in for words where there are no spaces to split on
+const bigrams = (run: string): string[] => {
+  const chars = [...run];
+  if (chars.length === 1) return chars;
+  return chars.slice(1).map((char, i) => chars[i] + char);
+};
+
+// Split text into words in reading order. Punctuation, apostrophes and hyphens separate words;
+// runs of CJK characters become character bigrams.
+export const segmentWords = (text: string): string[] => {
+  const words: string[] = [];
+  for (const [word] of text.matchAll(WORD)) {
+    if (!CJK_CHARACTER.test(word)) {
+      words.push(word);
+      continue;
+    }
+
+    let last = 0;
+    for (const match of word.matchAll(CJK_RUN)) {
+      if (match.index! > last) words.push(word.slice(last, match.index));
+      words.push(...bigrams(match[0]));
+      last = match.index! + match[0].length;
+    }
+    if (last < word.length) words.push(word.slice(last));
+  }
+  return words;
+};
@@ -0,0 +1,28 @@
+// 'und' (undetermined) covers text in other languages, or too little text to tell
+export type Language = 'en' | 'fr' | 'und';
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  fr: 'French',
+  und: 'Undetermined'
+};
+
+export interface Token {
+  term: string;
+  // Index of the word in the original text, counting words the analyzer dropped
+  position: number;
+}
+
+// One step of an analysis pipeline: returns the rewritten term, or null to drop the token
+export type TokenFilter = (term: string) => string | null;
+
+export interface Analyzer {
+  language: Language;
+  analyze(text: string): Token[];
+}
+
+export interface LanguageDetection {
+  language: Language;
+  // How clearly the text favoured the language over the others, in [0, 1]
+  confidence: number;
+}
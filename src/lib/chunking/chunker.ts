@@ -0,0 +1,130 @@
+import { PageSpan } from '../extraction/types';
+import { parseJsonBlocks } from './json';
+import { parseMarkdownBlocks } from './markdown';
+import { splitSentences } from './sentences';
+import { iterateTableChunks } from './table';
+import { countTokens } from './tokens';
+import { Block, Chunk, ChunkingError, ChunkingOptions, DEFAULT_CHUNKING_OPTIONS, MIN_CHUNK_SIZE } from './types';
+
+const samePath = (a: string[], b: string[]) => a.length === b.length && a.every((part, i) => part === b[i]);
+
+// Break blocks longer than the chunk size into sentences (or lines for code, lists and tables), hard-cutting as a last resort
+const splitOversizedBlock = (content: string, block: Block, chunkSize: number): Block[] => {
+  if (block.text !== undefined || block.end - block.start <= chunkSize) return [block];
+
+  const text = content.slice(block.start, block.end);
+  const spans = block.kind === 'code' || block.kind === 'list' || block.kind === 'table'
+    ? text.split('\n').reduce<{ start: number; end: number }[]>((acc, line) => {
+        const start = acc.length > 0 ? acc[acc.length - 1].end + 1 : block.start;
+        acc.push({ start, end: start + line.length });
+        return acc;
+      }, [])
+    : splitSentences(text, block.start);
+
+  return spans.flatMap(span => {
+    const pieces: Block[] = [];
+    for (let start = span.start; start < span.end; start += chunkSize) {
+      pieces.push({ ...block, start, end: Math.min(start + chunkSize, span.end) });
+    }
+    return pieces;
+  }).filter(piece => content.slice(piece.start, piece.end).trim());
+};
+
+// Why chunking options given by a user or an API client can't be used, or null when they are fine
+export const chunkingOptionsError = ({ chunkSize, overlap }: ChunkingOptions): string | null => {
+  if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE) return `The chunk size must be a whole number of at least ${MIN_CHUNK_SIZE}.`;
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= chunkSize) return 'The overlap must be a whole number from 0 to less than the chunk size.';
+  return null;
+};
+
+const pageAt = (pages: PageSpan[] | undefined, offset: number) =>
+  pages?.find(page => offset >= page.start && offset <= page.end)?.page;
+
+// Split a document into chunks that follow its structure: sections never share a chunk,
+// code blocks, lists and tables stay together when they fit, long paragraphs break at sentence ends,
+// and JSON is flattened to `key.path: value` lines. CSV and TSV tables are chunked by rows.
+// Chunks are produced one at a time so long documents can be chunked incrementally.
+export function* iterateChunks(
+  content: string,
+  options: Partial<ChunkingOptions> = {},
+  pages?: PageSpan[]
+): Generator<Chunk> {
+  const { chunkSize, overlap, format } = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+  // Long blocks are cut a chunk size at a time, which never finishes without a positive size.
+  // Stored documents may predate the stricter limits of chunkingOptionsError, so only this is enforced.
+  if (!(chunkSize >= 1)) throw new ChunkingError(`Invalid chunk size: ${chunkSize}`);
+  if (format) {
+    yield* iterateTableChunks(content, format, chunkSize);
+    return;
+  }
+
+  const blocks = (parseJsonBlocks(content) ?? parseMarkdownBlocks(content))
+    .flatMap(block => splitOversizedBlock(content, block, chunkSize));
+
+  if (blocks.length === 0) {
+    if (content.trim()) {
+      yield { text: content, start: 0, end: content.length, headingPath: [], ordinal: 0, tokenCount: countTokens(content), page: pageAt(pages, 0) };
+    }
+    return;
+  }
+
+  // Length of the chunk text spanning blocks[from..to], separators included
+  const spanLength = (from: number, to: number) => {
+    if (blocks[from].text === undefined) return blocks[to].end - blocks[from].start;
+    let length = to - from;
+    for (let i = from; i <= to; i++) length += blocks[i].text!.length;
+    return length;
+  };
+
+  let ordinal = 0;
+  let first = 0;
+
+  while (first < blocks.length) {
+    // Greedily extend the chunk while it stays within the size and the same section
+    let last = first;
+    while (
+      last + 1 < blocks.length &&
+      samePath(blocks[last + 1].headingPath, blocks[first].headingPath) &&
+      spanLength(first, last + 1) <= chunkSize
+    ) {
+      last++;
+    }
+
+    const members = blocks.slice(first, last + 1);
+    const start = members[0].start;
+    const end = members[members.length - 1].end;
+    const text = members.every(b => b.text !== undefined)
+      ? members.map(b => b.text).join('\n')
+      : content.slice(start, end);
+
+    yield {
+      text,
+      start,
+      end,
+      headingPath: members[0].headingPath,
+      ordinal: ordinal++,
+      tokenCount: countTokens(text),
+      page: pageAt(pages, start)
+    };
+
+    if (last + 1 >= blocks.length) break;
+
+    // Start the next chunk with trailing blocks of this one, up to the overlap budget,
+    // as long as they belong to the same section and the chunk still makes progress
+    let next = last + 1;
+    while (
+      next - 1 > first &&
+      samePath(blocks[next - 1].headingPath, blocks[last + 1].headingPath) &&
+      spanLength(next - 1, last) <= overlap
+    ) {
+      next--;
+    }
+    first = next;
+  }
+}
+
+export const chunkDocument = (
+  content: string,
+  options: Partial<ChunkingOptions> = {},
+  pages?: PageSpan[]
+): Chunk[] => [...iterateChunks(content, options, pages)];
@@ -0,0 +1,5 @@
+export * from './types';
+export { chunkDocument, chunkingOptionsError, iterateChunks } from './chunker';
+export { countTokens } from './tokens';
+export { splitSentences } from './sentences';
+export { formatRowRange, scanRows } from './table';
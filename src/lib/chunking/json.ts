@@ -0,0 +1,127 @@
+import { Block } from './types';
+
+interface JsonLeaf {
+  path: string;
+  value: string;
+  start: number;
+  end: number;
+}
+
+class JsonScanError extends Error {}
+
+// Minimal JSON scanner that records the source range of every leaf value,
+// so flattened `key.path: value` lines can still point back into the original text.
+const scanLeaves = (content: string): JsonLeaf[] => {
+  const leaves: JsonLeaf[] = [];
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < content.length && /\s/.test(content[i])) i++;
+  };
+
+  const expect = (char: string) => {
+    if (content[i] !== char) throw new JsonScanError(`Expected ${char} at ${i}`);
+    i++;
+  };
+
+  const scanString = (): string => {
+    const start = i;
+    expect('"');
+    while (i < content.length && content[i] !== '"') {
+      i += content[i] === '\\' ? 2 : 1;
+    }
+    expect('"');
+    return JSON.parse(content.slice(start, i)) as string;
+  };
+
+  const scanValue = (path: string, leafStart: number) => {
+    skipWhitespace();
+    const valueStart = i;
+    const char = content[i];
+
+    if (char === '{') {
+      i++;
+      skipWhitespace();
+      if (content[i] === '}') {
+        i++;
+        leaves.push({ path, value: '{}', start: leafStart, end: i });
+        return;
+      }
+      while (true) {
+        skipWhitespace();
+        const keyStart = i;
+        const key = scanString();
+        skipWhitespace();
+        expect(':');
+        scanValue(path ? `${path}.${key}` : key, keyStart);
+        skipWhitespace();
+        if (content[i] === ',') {
+          i++;
+          continue;
+        }
+        expect('}');
+        return;
+      }
+    }
+
+    if (char === '[') {
+      i++;
+      skipWhitespace();
+      if (content[i] === ']') {
+        i++;
+        leaves.push({ path, value: '[]', start: leafStart, end: i });
+        return;
+      }
+      let index = 0;
+      while (true) {
+        skipWhitespace();
+        scanValue(`${path}[${index++}]`, i);
+        skipWhitespace();
+        if (content[i] === ',') {
+          i++;
+          continue;
+        }
+        expect(']');
+        return;
+      }
+    }
+
+    if (char === '"') {
+      const value = scanString();
+      leaves.push({ path, value, start: leafStart, end: i });
+      return;
+    }
+
+    const literal = content.slice(i).match(/^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+    if (!literal) throw new JsonScanError(`Unexpected token at ${valueStart}`);
+    i += literal[0].length;
+    leaves.push({ path, value: literal[0], start: leafStart, end: i });
+  };
+
+  scanValue('', 0);
+  skipWhitespace();
+  if (i !== content.length) throw new JsonScanError('Trailing content after JSON value');
+  return leaves;
+};
+
+// Flatten a JSON document into one block per leaf, or return null if the content is not JSON
+export const parseJsonBlocks = (content: string): Block[] | null => {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+
+  let leaves: JsonLeaf[];
+  try {
+    leaves = scanLeaves(content);
+  } catch {
+    return null;
+  }
+
+  return leaves.map(leaf => ({
+    start: leaf.start,
+    end: leaf.end,
+    // Group leaves under their top-level key
+    headingPath: leaf.path ? [leaf.path.split(/[.[]/)[0] || leaf.path.match(/^\[\d+\]/)?.[0] || leaf.path] : [],
+    kind: 'json' as const,
+    text: `${leaf.path || '(root)'}: ${leaf.value}`
+  }));
+};
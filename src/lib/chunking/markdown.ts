@@ -0,0 +1,86 @@
+import { Block } from './types';
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+
+// Split Markdown (or plain text, which is just paragraphs) into structural blocks with offsets.
+// Fenced code blocks are kept whole, consecutive list items or table rows form one block, and every block
+// remembers the heading path it sits under.
+export const parseMarkdownBlocks = (content: string): Block[] => {
+  const blocks: Block[] = [];
+  const headingStack: { level: number; title: string }[] = [];
+  const lines: { text: string; start: number; end: number }[] = [];
+
+  let position = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ text, start: position, end: position + text.length });
+    position += text.length + 1;
+  }
+
+  const headingPath = () => headingStack.map(h => h.title);
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.text.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title: heading[2] });
+      blocks.push({ start: line.start, end: line.end, headingPath: headingPath(), kind: 'heading' });
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(fence[1])) j++;
+      const last = lines[Math.min(j, lines.length - 1)];
+      blocks.push({ start: line.start, end: last.end, headingPath: headingPath(), kind: 'code' });
+      i = j + 1;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line.text)) {
+      let j = i + 1;
+      while (j < lines.length && TABLE_ROW.test(lines[j].text)) j++;
+      blocks.push({ start: line.start, end: lines[j - 1].end, headingPath: headingPath(), kind: 'table' });
+      i = j;
+      continue;
+    }
+
+    // Lists and paragraphs run until a blank line or the start of another kind of block
+    const isList = LIST_ITEM.test(line.text);
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      lines[j].text.trim() &&
+      !HEADING.test(lines[j].text) &&
+      !FENCE.test(lines[j].text) &&
+      !TABLE_ROW.test(lines[j].text) &&
+      (isList || !LIST_ITEM.test(lines[j].text))
+    ) {
+      j++;
+    }
+    blocks.push({
+      start: line.start,
+      end: lines[j - 1].end,
+      headingPath: headingPath(),
+      kind: isList ? 'list' : 'paragraph'
+    });
+    i = j;
+  }
+
+  return blocks;
+};
@@ -0,0 +1,34 @@
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'inc', 'ltd', 'co',
+  'corp', 'fig', 'no', 'vol', 'approx', 'dept', 'est', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul',
+  'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'
+]);
+
+// Split a range of text into sentence spans. A sentence ends at . ! or ? followed by whitespace,
+// so decimals ("3.14") and URLs ("example.com/a.b") never split; known abbreviations and
+// single initials ("J. Smith") are not treated as sentence ends either.
+export const splitSentences = (text: string, offset: number = 0): { start: number; end: number }[] => {
+  const spans: { start: number; end: number }[] = [];
+  const boundary = /[.!?]+["')\]]*(?=\s+)/g;
+  let sentenceStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    if (match[0].startsWith('.')) {
+      const word = text.slice(sentenceStart, match.index).match(/([\p{L}.]+)$/u)?.[1]?.toLowerCase() ?? '';
+      if (ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word)) continue;
+    }
+
+    if (text.slice(sentenceStart, end).trim()) {
+      spans.push({ start: offset + sentenceStart, end: offset + end });
+    }
+    sentenceStart = end;
+    while (sentenceStart < text.length && /\s/.test(text[sentenceStart])) sentenceStart++;
+  }
+
+  if (text.slice(sentenceStart).trim()) {
+    spans.push({ start: offset + sentenceStart, end: offset + text.trimEnd().length });
+  }
+  return spans;
+};
@@ -0,0 +1,96 @@
+import { countTokens } from './tokens';
+import { Chunk, RowRange, TableFormat } from './types';
+
+interface Row {
+  start: number;
+  end: number;
+  // True when the row has no cell text, e.g. a trailing ",,,"
+  isEmpty: boolean;
+}
+
+const DELIMITERS: Record<TableFormat, string> = { csv: ',', tsv: '\t' };
+
+// Split delimited text into records, following RFC 4180 quoting: quoted cells may hold
+// delimiters, doubled quotes and line breaks. Blank lines count as (empty) rows, as they do in
+// a spreadsheet. Offsets exclude the line break.
+export const scanRows = (content: string, format: TableFormat): Row[] => {
+  const delimiter = DELIMITERS[format];
+  const rows: Row[] = [];
+  let start = 0;
+  let inQuotes = false;
+  let hasText = false;
+
+  const endRow = (end: number) => {
+    // Drop the carriage return of CRLF line endings
+    const rowEnd = end > start && content[end - 1] === '\r' ? end - 1 : end;
+    rows.push({ start, end: rowEnd, isEmpty: !hasText });
+    hasText = false;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') i++;
+      else if (char === '"') inQuotes = false;
+      hasText = true;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === '\n') {
+      endRow(i);
+      start = i + 1;
+    } else if (char !== delimiter && char !== '\r' && char.trim()) {
+      hasText = true;
+    }
+  }
+  // Text ending with a line break has no further row
+  if (start < content.length) endRow(content.length);
+  return rows;
+};
+
+export const formatRowRange = ({ first, last }: RowRange) =>
+  first === last ? `row ${first}` : `rows ${first}–${last}`;
+
+// Chunk a table by groups of whole rows, each chunk starting with the header row so its
+// columns stay readable on their own. Rows are numbered as in a spreadsheet, so the header is
+// usually row 1. Rows never repeat between chunks, so the overlap setting does not apply.
+export function* iterateTableChunks(content: string, format: TableFormat, chunkSize: number): Generator<Chunk> {
+  const rows = scanRows(content, format);
+  const headerIndex = rows.findIndex(row => !row.isEmpty);
+  if (headerIndex === -1) return;
+
+  const header = content.slice(rows[headerIndex].start, rows[headerIndex].end);
+  const body = rows
+    .map((row, index) => ({ ...row, number: index + 1 }))
+    .slice(headerIndex + 1)
+    .filter(row => !row.isEmpty);
+
+  if (body.length === 0) {
+    yield { text: header, start: rows[headerIndex].start, end: rows[headerIndex].end, headingPath: [], ordinal: 0, tokenCount: countTokens(header) };
+    return;
+  }
+
+  let ordinal = 0;
+  let first = 0;
+  while (first < body.length) {
+    let length = header.length + 1 + body[first].end - body[first].start;
+    let last = first;
+    // A single row longer than the chunk size still gets a chunk of its own
+    while (last + 1 < body.length && length + 1 + body[last + 1].end - body[last + 1].start <= chunkSize) {
+      last++;
+      length += 1 + body[last].end - body[last].start;
+    }
+
+    const members = body.slice(first, last + 1);
+    const text = [header, ...members.map(row => content.slice(row.start, row.end))].join('\n');
+    yield {
+      text,
+      start: members[0].start,
+      end: members[members.length - 1].end,
+      headingPath: [],
+      ordinal: ordinal++,
+      tokenCount: countTokens(text),
+      rows: { first: members[0].number, last: members[members.length - 1].number }
+    };
+    first = last + 1;
+  }
+}
@@ -0,0 +1,6 @@
+// Approximate model token count: words, numbers and punctuation marks each count as one,
+// long words are charged roughly one token per four characters.
+export const countTokens = (text: string): number => {
+  const pieces = text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  return pieces.reduce((total, piece) => total + Math.max(1, Math.ceil(piece.length / 4)), 0);
+};
@@ -0,0 +1,56 @@
+export interface Chunk {
+  // Text that is indexed, embedded and quoted; equals content.slice(start, end) except for flattened JSON
+  text: string;
+  // Character range of the chunk in the document content
+  start: number;
+  end: number;
+  // Headings (or JSON keys) enclosing the chunk, outermost first
+  headingPath: string[];
+  ordinal: number;
+  tokenCount: number;
+  page?: number;
+  // Table rows in the chunk, for CSV and TSV documents
+  rows?: RowRange;
+}
+
+// Spreadsheet row numbers, inclusive
+export interface RowRange {
+  first: number;
+  last: number;
+}
+
+export type TableFormat = 'csv' | 'tsv';
+
+export interface ChunkingOptions {
+  // Maximum chunk length in characters
+  chunkSize: number;
+  // Characters of trailing context repeated at the start of the next chunk
+  overlap: number;
+  // Set for tables, which are chunked by rows rather than by document structure
+  format?: TableFormat;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 500,
+  overlap: 50
+};
+
+// Smaller chunks carry too little text to be found or quoted on their own
+export const MIN_CHUNK_SIZE = 100;
+
+export class ChunkingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChunkingError';
+  }
+}
+
+// A contiguous piece of the document that chunks are packed from
+export interface Block {
+  start: number;
+  end: number;
+  headingPath: string[];
+  kind: 'heading' | 'paragraph' | 'list' | 'table' | 'code' | 'json';
+  // Replacement text when the block is not a verbatim slice of the content
+  text?: string;
+}
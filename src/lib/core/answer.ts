@@ -0,0 +1,48 @@
+import { buildMessages, condenseQuery, contextBudget, ContextPassage, createLlmProvider, LlmMessage, LlmSettings } from '../llm';
+import { Document, Source } from '../../types';
+import { AssembledContext, assembleContext } from './context';
+
+export const NO_CONTEXT_RESPONSE = "I don't have enough information in the uploaded documents to answer your question. Please try uploading relevant documents or asking about topics covered in your knowledge base.";
+
+// Turn follow-ups into standalone queries; the mock provider can't rewrite, so use the heuristic
+export const condenseForSearch = (
+  question: string,
+  history: LlmMessage[],
+  settings: LlmSettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  const condenser = settings.provider === 'mock' ? null : createLlmProvider(settings);
+  return condenseQuery(question, history, condenser, signal);
+};
+
+// Fit the retrieved sources into what the model's context window leaves after the templates,
+// history, question and answer
+export const fitContext = (
+  question: string,
+  sources: Source[],
+  documentsById: Map<string, Document>,
+  history: LlmMessage[],
+  settings: LlmSettings
+): AssembledContext =>
+  assembleContext(sources, documentsById, contextBudget(question, history, settings), settings.neighbourChunks);
+
+// Stream an answer token by token from the passages chosen for it
+export const streamAnswer = async function* (
+  question: string,
+  passages: ContextPassage[],
+  history: LlmMessage[],
+  settings: LlmSettings,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  if (passages.length === 0) {
+    yield NO_CONTEXT_RESPONSE;
+    return;
+  }
+
+  const provider = createLlmProvider(settings);
+  yield* provider.stream({
+    messages: buildMessages(question, passages, settings, history),
+    temperature: settings.temperature,
+    signal
+  });
+};
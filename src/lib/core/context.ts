@@ -0,0 +1,114 @@
+import { Document, Source } from '../../types';
+import { Chunk, formatRowRange } from '../chunking';
+import { ContextPassage, passageTokens } from '../llm';
+
+// The chunks of one document quoted for a source, from `first` to `last` inclusive
+interface Span {
+  source: Source;
+  doc?: Document;
+  first: number;
+  last: number;
+}
+
+export interface AssembledContext {
+  passages: ContextPassage[];
+  // The sources that made it into the prompt, in rank order
+  sources: Source[];
+}
+
+// Offsets only hold while the document is at the version that was searched
+const documentFor = (source: Source, documentsById: Map<string, Document>) => {
+  const doc = documentsById.get(source.docId);
+  return doc && doc.version === source.version && doc.chunks[source.chunkIndex] ? doc : undefined;
+};
+
+// Neighbouring rows of a table are not context for a hit the way surrounding prose is
+const isExpandable = (doc?: Document): doc is Document => !!doc && doc.chunking.format !== 'csv' && doc.chunking.format !== 'tsv';
+
+const locationOf = (chunks: Chunk[]): string | undefined => {
+  const first = chunks[0];
+  const last = chunks[chunks.length - 1];
+  if (first.page) {
+    return last.page && last.page !== first.page ? `pages ${first.page}–${last.page}` : `page ${first.page}`;
+  }
+  if (first.rows) {
+    return formatRowRange({ first: first.rows.first, last: last.rows?.last ?? first.rows.last });
+  }
+  return undefined;
+};
+
+// Chunks that quote the content verbatim are cut from it in one piece, so overlapping chunks
+// don't repeat their overlap. Flattened JSON and table chunks are joined instead.
+const spanText = (doc: Document, chunks: Chunk[]) =>
+  chunks.every(chunk => chunk.text === doc.content.slice(chunk.start, chunk.end))
+    ? doc.content.slice(chunks[0].start, chunks[chunks.length - 1].end).trim()
+    : chunks.map(chunk => chunk.text).join('\n\n');
+
+const sourceLocation = (source: Source) =>
+  source.page ? `page ${source.page}` : source.rows ? formatRowRange(source.rows) : undefined;
+
+// Merge spans of the same document that overlap or touch, then order the passages by their best rank
+const toPassages = (spans: Span[]): ContextPassage[] => {
+  const groups: Span[][] = [];
+  for (const span of [...spans].sort((a, b) => a.first - b.first)) {
+    const group = span.doc && groups.find(other =>
+      other[0].doc === span.doc && Math.max(...other.map(o => o.last)) + 1 >= span.first
+    );
+    if (group) {
+      group.push(span);
+    } else {
+      groups.push([span]);
+    }
+  }
+
+  return groups
+    .map(group => {
+      const { doc, source } = group[0];
+      const ids = group.map(span => span.source.id).sort((a, b) => a - b);
+      if (!doc) {
+        return { ids, title: source.title, location: sourceLocation(source), text: source.content };
+      }
+      const chunks = doc.chunks.slice(group[0].first, Math.max(...group.map(span => span.last)) + 1);
+      return { ids, title: doc.title, location: locationOf(chunks), text: spanText(doc, chunks) };
+    })
+    .sort((a, b) => a.ids[0] - b.ids[0]);
+};
+
+const totalTokens = (spans: Span[]) => toPassages(spans).reduce((total, passage) => total + passageTokens(passage), 0);
+
+// Choose the passages quoted for an answer within a token budget. Sources are taken in rank order
+// while they fit; the budget left over then widens each one, best first, by up to `neighbours`
+// chunks on either side. Sources that share a stretch of a document become one passage.
+export const assembleContext = (
+  sources: Source[],
+  documentsById: Map<string, Document>,
+  budget: number,
+  neighbours: number
+): AssembledContext => {
+  const spans: Span[] = [];
+  const tryAdd = (candidate: Span[]) => {
+    if (totalTokens(candidate) <= budget) spans.splice(0, spans.length, ...candidate);
+  };
+
+  for (const source of sources) {
+    const doc = documentFor(source, documentsById);
+    tryAdd([...spans, { source, doc, first: source.chunkIndex, last: source.chunkIndex }]);
+  }
+
+  // One chunk further out per round, so lower-ranked hits get their nearest neighbours before
+  // the best hit gets distant ones
+  for (let distance = 1; distance <= neighbours; distance++) {
+    for (let i = 0; i < spans.length; i++) {
+      const { source, doc, first, last } = spans[i];
+      if (!isExpandable(doc)) continue;
+      const widen = (patch: Partial<Span>) => tryAdd(spans.map((span, j) => (j === i ? { ...span, ...patch } : span)));
+      const before = source.chunkIndex - distance;
+      const after = source.chunkIndex + distance;
+      if (before >= 0 && before < first) widen({ first: before });
+      if (after < doc.chunks.length && after > last) widen({ last: after });
+    }
+  }
+
+  const included = new Set(spans.map(span => span.source));
+  return { passages: toPassages(spans), sources: sources.filter(source => included.has(source)) };
+};
@@ -0,0 +1,54 @@
+import { createId } from '../ids';
+import { AnswerVariant, ChatMessage, Conversation } from '../../types';
+
+const variantOf = ({ content, sources, searchQuery, stopped, rating }: ChatMessage): AnswerVariant =>
+  ({ content, sources, searchQuery, stopped, rating });
+
+// Save the answer shown into its variant slot and clear the message for a new answer,
+// which becomes the last variant
+export const startVariant = (message: ChatMessage): ChatMessage => {
+  const variants = [...(message.variants ?? [])];
+  variants[message.activeVariant ?? 0] = variantOf(message);
+  const next: AnswerVariant = { content: '', sources: undefined, searchQuery: undefined, stopped: undefined, rating: undefined };
+  return { ...message, ...next, variants: [...variants, next], activeVariant: variants.length, isStreaming: true };
+};
+
+// Show another of the generated answers, keeping the one shown up to date in its slot
+export const showVariant = (message: ChatMessage, index: number): ChatMessage => {
+  const active = message.activeVariant ?? 0;
+  if (!message.variants?.[index] || index === active) return message;
+  const variants = [...message.variants];
+  variants[active] = variantOf(message);
+  return { ...message, ...variants[index], variants, activeVariant: index };
+};
+
+// Start a new conversation repeating the turns before `messageId`, so an edited question can take
+// it elsewhere while the original stays as it was. Copies carry only the answer shown, without
+// ratings or source marks, so feedback is not counted twice.
+export const branchConversation = (
+  conversation: Conversation,
+  messages: ChatMessage[],
+  messageId: string
+): { conversation: Conversation; messages: ChatMessage[] } => {
+  const now = new Date();
+  const branch: Conversation = {
+    id: createId(),
+    title: `${conversation.title} (edited)`,
+    createdAt: now,
+    updatedAt: now,
+    scope: conversation.scope,
+    branchedFrom: conversation.id
+  };
+  const index = messages.findIndex(m => m.id === messageId);
+  const copies = messages.slice(0, index === -1 ? messages.length : index).map((message): ChatMessage => ({
+    ...message,
+    id: createId(),
+    conversationId: branch.id,
+    sources: message.sources?.map(source => ({ ...source, judgement: undefined })),
+    rating: undefined,
+    variants: undefined,
+    activeVariant: undefined,
+    isStreaming: false
+  }));
+  return { conversation: branch, messages: copies };
+};
@@ -0,0 +1,119 @@
+import { detectLanguage, Language } from '../analysis';
+import { Chunk, ChunkingOptions, DEFAULT_CHUNKING_OPTIONS } from '../chunking';
+import { diffStats } from '../versioning';
+import { Document, DocumentMetadata, DocumentVersion } from '../../types';
+
+// A document's text after chunking, ready to become a document or a new version of one
+export interface IngestedContent {
+  content: string;
+  contentHash: string;
+  chunks: Chunk[];
+  chunking: ChunkingOptions;
+  language: Language;
+}
+
+// Documents stored or exported before languages were detected get theirs from the content
+export const withLanguage = (doc: Document): Document =>
+  doc.language ? doc : { ...doc, language: detectLanguage(doc.content).language };
+
+export const resolveChunking = (metadata: DocumentMetadata = {}): ChunkingOptions =>
+  ({ ...DEFAULT_CHUNKING_OPTIONS, ...metadata.chunking });
+
+// Identical content is a duplicate; the same title (ignoring case) makes the upload a new version
+export const findDuplicate = (documents: Document[], contentHash: string) =>
+  documents.find(doc => doc.contentHash === contentHash);
+
+export const findByTitle = (documents: Document[], title: string) =>
+  documents.find(doc => doc.title.toLowerCase() === title.toLowerCase());
+
+// Freeze the current state of a document into a history entry
+export const snapshotVersion = (doc: Document): DocumentVersion => ({
+  version: doc.version,
+  contentHash: doc.contentHash,
+  content: doc.content,
+  size: doc.size,
+  uploadedAt: doc.uploadedAt,
+  chunking: doc.chunking,
+  fileName: doc.fileName,
+  pages: doc.pages,
+  diff: doc.diff,
+  restoredFrom: doc.restoredFrom,
+  redaction: doc.redaction
+});
+
+export const createDocument = (
+  id: string,
+  title: string,
+  { content, contentHash, chunks, chunking, language }: IngestedContent,
+  { fileName, relativePath, collection, tags, pages, redaction }: DocumentMetadata = {}
+): Document => ({
+  id,
+  title,
+  content,
+  chunks,
+  chunking,
+  contentHash,
+  language,
+  version: 1,
+  versions: [],
+  uploadedAt: new Date(),
+  size: content.length,
+  fileName,
+  relativePath,
+  collection,
+  tags: tags ?? [],
+  pages,
+  redaction
+});
+
+// The previous state moves into the history; metadata not given carries over, except page
+// boundaries and redaction choices, which belong to the old content
+export const createNextVersion = (
+  previous: Document,
+  { content, contentHash, chunks, chunking, language }: IngestedContent,
+  metadata: DocumentMetadata = {}
+): Document => ({
+  ...previous,
+  content,
+  chunks,
+  chunking,
+  contentHash,
+  language,
+  uploadedAt: new Date(),
+  size: content.length,
+  fileName: metadata.fileName ?? previous.fileName,
+  relativePath: metadata.relativePath ?? previous.relativePath,
+  pages: metadata.pages,
+  redaction: metadata.redaction,
+  collection: metadata.collection ?? previous.collection,
+  tags: metadata.tags ?? previous.tags,
+  version: previous.version + 1,
+  diff: diffStats(previous.content, content),
+  restoredFrom: undefined,
+  versions: [...previous.versions, snapshotVersion(previous)],
+  embeddings: undefined,
+  embeddingModel: undefined,
+  embeddingError: undefined
+});
+
+// Restore an earlier version as a new version on top of the history
+export const restoreVersion = (doc: Document, target: DocumentVersion, chunks: Chunk[], language: Language): Document => ({
+  ...doc,
+  content: target.content,
+  chunks,
+  chunking: target.chunking,
+  contentHash: target.contentHash,
+  language,
+  uploadedAt: new Date(),
+  size: target.size,
+  fileName: target.fileName,
+  pages: target.pages,
+  redaction: target.redaction,
+  version: doc.version + 1,
+  diff: diffStats(doc.content, target.content),
+  restoredFrom: target.version,
+  versions: [...doc.versions, snapshotVersion(doc)],
+  embeddings: undefined,
+  embeddingModel: undefined,
+  embeddingError: undefined
+});
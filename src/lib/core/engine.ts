@@ -0,0 +1,165 @@
+import { detectLanguage } from '../analysis';
+import { chunkDocument } from '../chunking';
+import { createEmbeddingProvider, EmbeddingSettings } from '../embeddings';
+import { createId } from '../ids';
+import { LlmMessage, LlmSettings } from '../llm';
+import { applyRedactions, BUILT_IN_RULES, compileCustomRule, CustomRedactionRule, groupFindings, RedactionAction, RedactionRule, scanText } from '../redaction';
+import { Retriever } from '../retrieval';
+import { RetrievalScope, RetrievalSettings } from '../search';
+import { hashContent } from '../versioning';
+import { AddDocumentResult, Document, DocumentMetadata, Source } from '../../types';
+import { condenseForSearch, fitContext, streamAnswer } from './answer';
+import { createDocument, createNextVersion, findByTitle, findDuplicate, resolveChunking, withLanguage } from './documents';
+import { prepareRetrieval, toSources } from './retrieval';
+
+export interface RagEngineSettings {
+  llm: LlmSettings;
+  retrieval: RetrievalSettings;
+  embedding: EmbeddingSettings;
+  // Added to the built-in sensitive data rules
+  redactionRules?: CustomRedactionRule[];
+}
+
+export interface QueryOptions {
+  history?: LlmMessage[];
+  scope?: RetrievalScope;
+  signal?: AbortSignal;
+}
+
+// What a streamed query reports, in order: the search query, the sources, then answer tokens
+export type QueryEvent =
+  | { type: 'query'; searchQuery: string }
+  | { type: 'sources'; sources: Source[] }
+  | { type: 'token'; text: string };
+
+export interface QueryResult {
+  answer: string;
+  searchQuery: string;
+  sources: Source[];
+}
+
+// The knowledge base without a UI: documents held in memory, chunked and indexed on the
+// calling thread, and answered through the configured LLM. The app does the same steps in
+// its worker; scripts and servers use this class directly.
+export class RagEngine {
+  private readonly documents = new Map<string, Document>();
+  private readonly retriever: Retriever;
+  private readonly redactionRules: RedactionRule[];
+
+  // Throws a RedactionRuleError when a custom rule doesn't compile
+  constructor(readonly settings: RagEngineSettings, documents: Document[] = []) {
+    this.retriever = new Retriever(createEmbeddingProvider(settings.embedding));
+    this.redactionRules = [...BUILT_IN_RULES, ...(settings.redactionRules ?? []).map(compileCustomRule)];
+    for (const stored of documents) {
+      const doc = withLanguage(stored);
+      this.documents.set(doc.id, doc);
+      this.retriever.addDocument(doc.id, doc.chunks.map(c => c.text), doc.language);
+      if (doc.embeddings && doc.embeddingModel) {
+        this.retriever.setEmbeddings(doc.id, { embeddings: doc.embeddings, model: doc.embeddingModel });
+      }
+    }
+  }
+
+  listDocuments(): Document[] {
+    return [...this.documents.values()];
+  }
+
+  getDocument(id: string): Document | undefined {
+    return this.documents.get(id);
+  }
+
+  // Sensitive data is handled before anything else, with the action given per rule id or else
+  // the rule's default, so the original values never reach the index or a prompt
+  async addDocument(
+    title: string,
+    original: string,
+    metadata: DocumentMetadata = {},
+    redactionActions: Record<string, RedactionAction> = {}
+  ): Promise<Extract<AddDocumentResult, { document: Document }>> {
+    const groups = groupFindings(scanText(original, this.redactionRules), this.redactionRules);
+    const { content, pages, decisions } = applyRedactions(original, groups, redactionActions, metadata.pages);
+    const recorded = { ...metadata, pages, redaction: decisions.length > 0 ? decisions : undefined };
+
+    const chunking = resolveChunking(recorded);
+    const contentHash = await hashContent(content);
+
+    const duplicate = findDuplicate(this.listDocuments(), contentHash);
+    if (duplicate) {
+      return { status: 'duplicate', document: duplicate };
+    }
+
+    const ingested = {
+      content,
+      contentHash,
+      chunking,
+      chunks: chunkDocument(content, chunking, recorded.pages),
+      language: detectLanguage(content).language
+    };
+    const previous = findByTitle(this.listDocuments(), title);
+    const document = previous
+      ? createNextVersion(previous, ingested, recorded)
+      : createDocument(createId(), title, ingested, recorded);
+
+    this.documents.set(document.id, document);
+    this.retriever.addDocument(document.id, document.chunks.map(c => c.text), document.language);
+    const embedded = await this.embed(document);
+    return { status: previous ? 'updated' : 'added', document: embedded };
+  }
+
+  removeDocument(id: string): boolean {
+    this.retriever.removeDocument(id);
+    return this.documents.delete(id);
+  }
+
+  // Embed documents whose vectors are missing or came from another model; returns how many
+  async embedStale(): Promise<number> {
+    const stale = this.listDocuments().filter(doc => doc.embeddingModel !== this.retriever.embeddingModel);
+    for (const doc of stale) {
+      await this.embed(doc);
+    }
+    return stale.length;
+  }
+
+  async retrieve(query: string, scope?: RetrievalScope): Promise<Source[]> {
+    const { request, documentsById } = prepareRetrieval(this.listDocuments(), query, this.settings.retrieval, [], scope);
+    return toSources(await this.retriever.search(request), documentsById);
+  }
+
+  async *stream(question: string, { history = [], scope, signal }: QueryOptions = {}): AsyncGenerator<QueryEvent> {
+    const searchQuery = await condenseForSearch(question, history, this.settings.llm, signal);
+    yield { type: 'query', searchQuery };
+
+    // Only the sources that fit in the prompt are reported, so every citation resolves
+    const { passages, sources } = fitContext(question, await this.retrieve(searchQuery, scope), this.documents, history, this.settings.llm);
+    yield { type: 'sources', sources };
+
+    for await (const text of streamAnswer(question, passages, history, this.settings.llm, signal)) {
+      yield { type: 'token', text };
+    }
+  }
+
+  async query(question: string, options: QueryOptions = {}): Promise<QueryResult> {
+    const result: QueryResult = { answer: '', searchQuery: question, sources: [] };
+    for await (const event of this.stream(question, options)) {
+      if (event.type === 'query') result.searchQuery = event.searchQuery;
+      else if (event.type === 'sources') result.sources = event.sources;
+      else result.answer += event.text;
+    }
+    return result;
+  }
+
+  // Keyword search keeps working when embedding fails, so the error is recorded rather than thrown
+  private async embed(doc: Document): Promise<Document> {
+    let embedded: Document;
+    try {
+      const { embeddings, model } = await this.retriever.embedDocument(doc.id, doc.chunks.map(c => c.text));
+      embedded = { ...doc, embeddings, embeddingModel: model, embeddingError: undefined };
+    } catch (error) {
+      embedded = { ...doc, embeddingError: error instanceof Error ? error.message : 'Embedding failed' };
+    }
+    // The document may have been replaced or removed while the vectors were computed
+    if (this.documents.get(doc.id) !== doc) return embedded;
+    this.documents.set(doc.id, embedded);
+    return embedded;
+  }
+}
@@ -0,0 +1,6 @@
+export * from './documents';
+export * from './retrieval';
+export * from './answer';
+export * from './context';
+export * from './conversations';
+export * from './engine';
@@ -0,0 +1,93 @@
+import { InspectedHit, RetrievalQuery } from '../retrieval';
+import { FeedbackJudgement, feedbackBoosts, HybridHit, isInScope, RetrievalScope, RetrievalSettings } from '../search';
+import { Document, RetrievalCandidate, Source } from '../../types';
+
+// Feedback on a chunk, tied to the document version the chunk index refers to
+export interface VersionedJudgement extends FeedbackJudgement {
+  version?: number;
+}
+
+export interface PreparedRetrieval {
+  request: RetrievalQuery;
+  documentsById: Map<string, Document>;
+  // Documents left out by the scope
+  outOfScope: number;
+}
+
+// Build a search over the documents in scope, with feedback boosts for the query
+export const prepareRetrieval = (
+  documents: Document[],
+  query: string,
+  settings: RetrievalSettings,
+  judgements: VersionedJudgement[] = [],
+  scope?: RetrievalScope
+): PreparedRetrieval => {
+  const scopedDocuments = documents.filter(doc => isInScope(doc, scope));
+  const documentsById = new Map(scopedDocuments.map(doc => [doc.id, doc]));
+  // Chunk indexes only carry over while the document is still at the version that was judged
+  const current = judgements.filter(j => documentsById.get(j.docId)?.version === j.version);
+  return {
+    request: {
+      query,
+      docIds: scopedDocuments.map(doc => doc.id),
+      settings,
+      minRelevance: settings.minRelevance,
+      limit: settings.topK,
+      boosts: feedbackBoosts(query, current)
+    },
+    documentsById,
+    outOfScope: documents.length - scopedDocuments.length
+  };
+};
+
+// A document may have been replaced or removed while the search ran
+const isIndexed = (hit: HybridHit, documentsById: Map<string, Document>) =>
+  documentsById.get(hit.docId)?.chunks[hit.chunkIndex] !== undefined;
+
+const chunkDetails = (hit: HybridHit, documentsById: Map<string, Document>) => {
+  const doc = documentsById.get(hit.docId)!;
+  const chunk = doc.chunks[hit.chunkIndex];
+  return {
+    doc,
+    chunk,
+    headingPath: chunk.headingPath.length > 0 ? chunk.headingPath : undefined
+  };
+};
+
+// Turn search hits into numbered, citable sources
+export const toSources = (hits: HybridHit[], documentsById: Map<string, Document>): Source[] => hits
+  .filter(hit => isIndexed(hit, documentsById))
+  .map((hit, rank) => {
+    const { doc, chunk, headingPath } = chunkDetails(hit, documentsById);
+    return {
+      id: rank + 1,
+      docId: doc.id,
+      version: doc.version,
+      chunkIndex: hit.chunkIndex,
+      start: chunk.start,
+      end: chunk.end,
+      title: doc.title,
+      content: chunk.text,
+      relevance: hit.relevance,
+      headingPath,
+      page: chunk.page,
+      rows: chunk.rows
+    };
+  });
+
+export const toCandidates = (hits: InspectedHit[], documentsById: Map<string, Document>): RetrievalCandidate[] => hits
+  .filter(hit => isIndexed(hit, documentsById))
+  .map(hit => {
+    const { doc, chunk, headingPath } = chunkDetails(hit, documentsById);
+    return {
+      ...hit,
+      title: doc.title,
+      version: doc.version,
+      content: chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+      headingPath,
+      page: chunk.page,
+      rows: chunk.rows
+    };
+  });
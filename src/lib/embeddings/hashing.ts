@@ -0,0 +1,47 @@
+import { EmbeddingProvider } from './types';
+import { normalize } from './vector';
+
+// 32-bit FNV-1a, stable across runs and platforms
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic offline embedder: hashes words and character trigrams into a fixed-size signed vector.
+// It captures lexical and sub-word overlap only, not meaning, but needs no model or network.
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 256) {
+    this.id = `hashing:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/\W+/).filter(w => w.length > 0);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.substring(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
@@ -0,0 +1,79 @@
+import { EmbeddingError, EmbeddingProvider } from './types';
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: { embedding: number[]; index: number }[];
+}
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+// Local Ollama server through its /api/embed endpoint
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string
+  ) {
+    this.id = `ollama:${model}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch(`${trimUrl(this.baseUrl)}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingError(`Ollama embedding failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const data = (await response.json()) as OllamaEmbedResponse;
+    if (!data.embeddings || data.embeddings.length !== texts.length) {
+      throw new EmbeddingError('Ollama embedding response did not match the input');
+    }
+    return data.embeddings;
+  }
+}
+
+// Any server implementing the OpenAI /embeddings API
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string
+  ) {
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${trimUrl(this.baseUrl)}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingError(`Embedding request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const data = (await response.json()) as OpenAIEmbeddingResponse;
+    if (!data.data || data.data.length !== texts.length) {
+      throw new EmbeddingError('Embedding response did not match the input');
+    }
+    return [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+}
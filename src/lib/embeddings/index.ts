@@ -0,0 +1,32 @@
+import { EmbeddingProvider, EmbeddingProviderKind, EmbeddingSettings } from './types';
+import { HashingEmbedder } from './hashing';
+import { OllamaEmbeddingProvider, OpenAIEmbeddingProvider } from './http';
+
+export * from './types';
+export * from './vector';
+export { HashingEmbedder } from './hashing';
+
+export const DEFAULT_EMBEDDING_BASE_URLS: Record<EmbeddingProviderKind, string> = {
+  hashing: '',
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8000/v1'
+};
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  provider: 'hashing',
+  baseUrl: '',
+  model: 'nomic-embed-text',
+  apiKey: ''
+};
+
+export const createEmbeddingProvider = (settings: EmbeddingSettings): EmbeddingProvider => {
+  switch (settings.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(settings.baseUrl, settings.model);
+    case 'openai':
+      return new OpenAIEmbeddingProvider(settings.baseUrl, settings.model, settings.apiKey || undefined);
+    case 'hashing':
+    default:
+      return new HashingEmbedder();
+  }
+};
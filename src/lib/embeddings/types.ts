@@ -0,0 +1,21 @@
+export interface EmbeddingProvider {
+  // Identifies the vector space; vectors from different ids must not be compared
+  readonly id: string;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export type EmbeddingProviderKind = 'hashing' | 'ollama' | 'openai';
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderKind;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+export class EmbeddingError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
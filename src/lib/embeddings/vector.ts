@@ -0,0 +1,18 @@
+export const dot = (a: number[], b: number[]): number => {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+};
+
+export const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  const denominator = Math.sqrt(dot(a, a)) * Math.sqrt(dot(b, b));
+  return denominator > 0 ? dot(a, b) / denominator : 0;
+};
@@ -0,0 +1,147 @@
+import { chunkDocument, DEFAULT_CHUNKING_OPTIONS } from '../chunking';
+import { Chunk } from '../chunking/types';
+import { createEmbeddingProvider, DEFAULT_EMBEDDING_SETTINGS } from '../embeddings';
+import { Retriever } from '../retrieval';
+import { DEFAULT_RETRIEVAL_SETTINGS } from '../search';
+import { mean, ndcgAtK, recallAtK, reciprocalRank } from './metrics';
+import {
+  CorpusDocument,
+  EvaluationConfig,
+  EvaluationError,
+  EvaluationReport,
+  GoldenExpectation,
+  GoldenQuestion,
+  QuestionResult
+} from './types';
+
+// Same settings the app starts with, including its minimum relevance threshold
+export const DEFAULT_EVALUATION_CONFIG: EvaluationConfig = {
+  name: 'default',
+  chunking: DEFAULT_CHUNKING_OPTIONS,
+  retrieval: DEFAULT_RETRIEVAL_SETTINGS,
+  embedding: DEFAULT_EMBEDDING_SETTINGS
+};
+
+export const DEFAULT_KS = [1, 3, 5, 10];
+
+type ConfigOverrides = Partial<Omit<EvaluationConfig, 'chunking' | 'retrieval' | 'embedding'>> & {
+  chunking?: Partial<EvaluationConfig['chunking']>;
+  retrieval?: Partial<EvaluationConfig['retrieval']>;
+  embedding?: Partial<EvaluationConfig['embedding']>;
+};
+
+// Fill a partial configuration, as written in a config file, with the defaults
+export const resolveConfig = (overrides: ConfigOverrides, fallbackName: string): EvaluationConfig => ({
+  name: overrides.name ?? fallbackName,
+  chunking: { ...DEFAULT_EVALUATION_CONFIG.chunking, ...overrides.chunking },
+  retrieval: { ...DEFAULT_EVALUATION_CONFIG.retrieval, ...overrides.retrieval },
+  embedding: { ...DEFAULT_EVALUATION_CONFIG.embedding, ...overrides.embedding }
+});
+
+export const parseGolden = (text: string): GoldenQuestion[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new EvaluationError('The golden file is not valid JSON.');
+  }
+  if (!Array.isArray(data)) {
+    throw new EvaluationError('The golden file must be a JSON array of questions.');
+  }
+
+  return data.map((entry, i) => {
+    const question = entry as GoldenQuestion;
+    if (
+      typeof question?.question !== 'string' ||
+      !Array.isArray(question.expected) ||
+      question.expected.length === 0 ||
+      !question.expected.every(e => typeof e?.document === 'string' && (e.passage === undefined || typeof e.passage === 'string'))
+    ) {
+      throw new EvaluationError(`Golden question ${i + 1} needs a "question" and a non-empty "expected" list of { document, passage? }.`);
+    }
+    return { question: question.question, expected: question.expected };
+  });
+};
+
+interface IndexedDocument {
+  content: string;
+  chunks: Chunk[];
+}
+
+// Character range an expectation covers within its document
+const expectedRange = (expectation: GoldenExpectation, documents: Map<string, IndexedDocument>) => {
+  const doc = documents.get(expectation.document);
+  if (!doc) {
+    throw new EvaluationError(`Golden file refers to "${expectation.document}", which is not in the corpus.`);
+  }
+  if (expectation.passage === undefined) {
+    return { start: 0, end: doc.content.length };
+  }
+  const start = doc.content.toLowerCase().indexOf(expectation.passage.toLowerCase());
+  if (start === -1) {
+    throw new EvaluationError(`Passage "${expectation.passage}" not found in "${expectation.document}".`);
+  }
+  return { start, end: start + expectation.passage.length };
+};
+
+// Index the corpus with one configuration and score every golden question against it
+export const evaluate = async (
+  corpus: CorpusDocument[],
+  golden: GoldenQuestion[],
+  config: EvaluationConfig,
+  ks: number[] = DEFAULT_KS
+): Promise<EvaluationReport> => {
+  const retriever = new Retriever(createEmbeddingProvider(config.embedding));
+  const documents = new Map<string, IndexedDocument>();
+
+  for (const { id, content } of corpus) {
+    const chunks = chunkDocument(content, config.chunking);
+    const texts = chunks.map(c => c.text);
+    retriever.addDocument(id, texts);
+    if (config.retrieval.denseWeight > 0) {
+      await retriever.embedDocument(id, texts);
+    }
+    documents.set(id, { content, chunks });
+  }
+
+  const limit = Math.max(...ks);
+  const questions: QuestionResult[] = [];
+
+  for (const { question, expected } of golden) {
+    const ranges = expected.map(expectation => expectedRange(expectation, documents));
+    // Scored deeper than the app's top-K so recall can be measured at every k
+    const hits = await retriever.search({ query: question, settings: config.retrieval, minRelevance: config.retrieval.minRelevance, limit });
+
+    // Credit each expectation once, at the first hit that covers it
+    const ranks: (number | null)[] = expected.map(() => null);
+    const relevant = hits.map((hit, rank) => {
+      const chunk = documents.get(hit.docId)!.chunks[hit.chunkIndex];
+      const satisfied = expected.findIndex((expectation, i) =>
+        ranks[i] === null &&
+        expectation.document === hit.docId &&
+        chunk.start < ranges[i].end &&
+        chunk.end > ranges[i].start
+      );
+      if (satisfied === -1) return false;
+      ranks[satisfied] = rank + 1;
+      return true;
+    });
+
+    questions.push({
+      question,
+      ranks,
+      recall: Object.fromEntries(ks.map(k => [k, recallAtK(ranks, k)])),
+      reciprocalRank: reciprocalRank(relevant),
+      ndcg: Object.fromEntries(ks.map(k => [k, ndcgAtK(relevant, expected.length, k)]))
+    });
+  }
+
+  return {
+    config: config.name,
+    ks,
+    recall: Object.fromEntries(ks.map(k => [k, mean(questions.map(q => q.recall[k]))])),
+    mrr: mean(questions.map(q => q.reciprocalRank)),
+    ndcg: Object.fromEntries(ks.map(k => [k, mean(questions.map(q => q.ndcg[k]))])),
+    questions
+  };
+};
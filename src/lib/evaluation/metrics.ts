@@ -0,0 +1,30 @@
+// Retrieval metrics over one question. `relevant` lists, per retrieved rank (0-based),
+// whether that hit satisfied an expectation not already satisfied higher up.
+
+// Share of expectations found within the first k hits
+export const recallAtK = (ranks: (number | null)[], k: number): number =>
+  ranks.length === 0 ? 0 : ranks.filter(rank => rank !== null && rank <= k).length / ranks.length;
+
+// Inverse rank of the first relevant hit, 0 when nothing relevant was retrieved
+export const reciprocalRank = (relevant: boolean[]): number => {
+  const first = relevant.indexOf(true);
+  return first === -1 ? 0 : 1 / (first + 1);
+};
+
+// Normalised discounted cumulative gain with binary relevance
+export const ndcgAtK = (relevant: boolean[], expectedCount: number, k: number): number => {
+  const discount = (rank: number) => 1 / Math.log2(rank + 2);
+  let dcg = 0;
+  relevant.slice(0, k).forEach((isRelevant, rank) => {
+    if (isRelevant) dcg += discount(rank);
+  });
+
+  let ideal = 0;
+  for (let rank = 0; rank < Math.min(expectedCount, k); rank++) {
+    ideal += discount(rank);
+  }
+  return ideal > 0 ? dcg / ideal : 0;
+};
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
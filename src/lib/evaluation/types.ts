@@ -0,0 +1,53 @@
+import { ChunkingOptions } from '../chunking/types';
+import { EmbeddingSettings } from '../embeddings/types';
+import { RetrievalSettings } from '../search/hybrid';
+
+export interface CorpusDocument {
+  // Path of the file relative to the corpus root, used by golden files to name documents
+  id: string;
+  content: string;
+}
+
+// A passage counts as found when a retrieved chunk of `document` overlaps it;
+// without a passage any chunk of the document counts
+export interface GoldenExpectation {
+  document: string;
+  passage?: string;
+}
+
+export interface GoldenQuestion {
+  question: string;
+  expected: GoldenExpectation[];
+}
+
+export interface EvaluationConfig {
+  name: string;
+  chunking: ChunkingOptions;
+  retrieval: RetrievalSettings;
+  embedding: EmbeddingSettings;
+}
+
+export interface QuestionResult {
+  question: string;
+  // 1-based rank at which each expectation was first found, null when it was not retrieved
+  ranks: (number | null)[];
+  recall: Record<number, number>;
+  reciprocalRank: number;
+  ndcg: Record<number, number>;
+}
+
+export interface EvaluationReport {
+  config: string;
+  ks: number[];
+  recall: Record<number, number>;
+  mrr: number;
+  ndcg: Record<number, number>;
+  questions: QuestionResult[];
+}
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
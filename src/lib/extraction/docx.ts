@@ -0,0 +1,82 @@
+import JSZip from 'jszip';
+import { ExtractionError } from './types';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Encrypted Office files are OLE compound documents rather than zip archives
+const isCompoundDocument = (data: ArrayBuffer) => {
+  const bytes = new Uint8Array(data, 0, Math.min(4, data.byteLength));
+  return bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+};
+
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== WORD_NS) continue;
+      switch (child.localName) {
+        case 't':
+          text += child.textContent ?? '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+          text += '\n';
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+  return text;
+};
+
+// Extract paragraphs as plain text, keeping headings and list items as Markdown so structure survives
+export const extractDocx = async (data: ArrayBuffer): Promise<{ content: string }> => {
+  if (isCompoundDocument(data)) {
+    throw new ExtractionError('This Word file is password-protected or in the legacy .doc format. Save it as an unprotected .docx and try again.');
+  }
+
+  let xml: string | undefined;
+  try {
+    const zip = await JSZip.loadAsync(data);
+    xml = await zip.file('word/document.xml')?.async('string');
+  } catch {
+    throw new ExtractionError('This Word file could not be read. The file may be corrupt.');
+  }
+  if (!xml) {
+    throw new ExtractionError('This file is not a valid .docx document.');
+  }
+
+  const dom = new DOMParser().parseFromString(xml, 'application/xml');
+  if (dom.getElementsByTagName('parsererror').length > 0) {
+    throw new ExtractionError('This Word file could not be read. The document XML is corrupt.');
+  }
+
+  const blocks: string[] = [];
+  for (const paragraph of Array.from(dom.getElementsByTagNameNS(WORD_NS, 'p'))) {
+    const text = paragraphText(paragraph).trim();
+    if (!text) continue;
+
+    const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? '';
+    const heading = style.match(/^(?:Heading|Title)(\d)?$/i);
+    const isListItem = paragraph.getElementsByTagNameNS(WORD_NS, 'numPr').length > 0;
+
+    if (heading) {
+      const level = Math.min(Number(heading[1] ?? 1), 6);
+      blocks.push(`${'#'.repeat(level)} ${text}`);
+    } else if (isListItem) {
+      blocks.push(`- ${text}`);
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  if (blocks.length === 0) {
+    throw new ExtractionError('No text found in this Word document.');
+  }
+
+  return { content: blocks.join('\n\n') };
+};
@@ -0,0 +1,147 @@
+import { ExtractionError } from './types';
+
+// Page chrome and non-content elements, dropped with everything inside them
+const REMOVED = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas', 'video', 'audio',
+  'nav', 'aside', 'form', 'button', 'select', 'dialog', '[hidden]', '[aria-hidden="true"]',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="search"]'
+].join(', ');
+
+// Ids and classes of boilerplate that is not marked up as such, matched with - and _ read as spaces
+const BOILERPLATE = /\b(cookies?|consent|breadcrumbs?|sidebar|newsletter|subscribe|social|share|advert|ads|promo|skip link|menu|navbar|pagination)\b/i;
+
+// Share of the page text above which an element is taken for a layout wrapper, whatever its name
+const MAX_BOILERPLATE_SHARE = 0.5;
+
+const BLOCKS = new Set([
+  'address', 'article', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+]);
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Text of inline content, with line breaks kept and code marked as in Markdown
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  const tag = element.localName;
+  if (tag === 'br') return '\n';
+  if (tag === 'img') return element.getAttribute('alt') ?? '';
+  const text = Array.from(element.childNodes, inlineText).join('');
+  return tag === 'code' && text.trim() ? `\`${collapse(text)}\`` : text;
+};
+
+const paragraph = (nodes: Node[]): string =>
+  nodes.map(inlineText).join('').split('\n').map(collapse).filter(Boolean).join('\n');
+
+const cellText = (cell: Element) => collapse(inlineText(cell)).replace(/\|/g, '\\|');
+
+// Tables used for layout (a single row or column) are read as ordinary content
+const isLayoutTable = (table: HTMLTableElement) =>
+  table.rows.length < 2 || Array.from(table.rows).every(row => row.cells.length < 2);
+
+const markdownTable = (table: HTMLTableElement): string => {
+  const rows = Array.from(table.rows, row => Array.from(row.cells, cellText));
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+};
+
+const listItems = (list: Element, depth: number): string[] => {
+  const lines: string[] = [];
+  let number = Number(list.getAttribute('start') ?? 1);
+  for (const item of Array.from(list.children).filter(child => child.localName === 'li')) {
+    const marker = list.localName === 'ol' ? `${number++}.` : '-';
+    const nested = Array.from(item.children).filter(child => child.localName === 'ul' || child.localName === 'ol');
+    const own = Array.from(item.childNodes).filter(child => !nested.includes(child as Element));
+    lines.push(`${'  '.repeat(depth)}${marker} ${collapse(own.map(inlineText).join(''))}`);
+    nested.forEach(child => lines.push(...listItems(child, depth + 1)));
+  }
+  return lines;
+};
+
+// Convert an element's content to Markdown blocks. Runs of inline content between block
+// elements become paragraphs.
+const toBlocks = (element: Element): string[] => {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+  const flush = () => {
+    const text = paragraph(inline);
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of Array.from(element.childNodes)) {
+    const child = node as Element;
+    if (node.nodeType !== Node.ELEMENT_NODE || !BLOCKS.has(child.localName)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+
+    const tag = child.localName;
+    if (/^h[1-6]$/.test(tag)) {
+      const text = collapse(inlineText(child));
+      if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const items = listItems(child, 0);
+      if (items.length > 0) blocks.push(items.join('\n'));
+    } else if (tag === 'pre') {
+      const code = (child.textContent ?? '').replace(/\n+$/, '');
+      if (code.trim()) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+    } else if (tag === 'table' && !isLayoutTable(child as HTMLTableElement)) {
+      blocks.push(markdownTable(child as HTMLTableElement));
+    } else if (tag === 'blockquote') {
+      const quoted = toBlocks(child).join('\n\n');
+      if (quoted) blocks.push(quoted.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+    } else if (tag === 'hr') {
+      blocks.push('---');
+    } else if (tag === 'dt') {
+      const text = collapse(inlineText(child));
+      if (text) blocks.push(`**${text}**`);
+    } else {
+      blocks.push(...toBlocks(child));
+    }
+  }
+  flush();
+  return blocks;
+};
+
+const textLength = (element: Element) => collapse(element.textContent ?? '').length;
+
+const isBoilerplate = (element: Element, pageLength: number) =>
+  !['html', 'body', 'main', 'article'].includes(element.localName) &&
+  BOILERPLATE.test(`${element.id} ${element.getAttribute('class') ?? ''}`.replace(/[_-]/g, ' ')) &&
+  // Never drop a container of the main content because of a loose class name
+  // (`layout-with-sidebar`): it holds a heading or most of the text
+  !element.querySelector('main, article, h1') &&
+  textLength(element) <= pageLength * MAX_BOILERPLATE_SHARE;
+
+// Turn a saved web page into Markdown: navigation, scripts and boilerplate are dropped, and
+// headings, lists, code and tables are kept. The main or article element is preferred when present.
+export const extractHtml = (html: string): { content: string; title?: string } => {
+  const dom = new DOMParser().parseFromString(html, 'text/html');
+  const title = collapse(dom.querySelector('title')?.textContent ?? '') || undefined;
+
+  dom.querySelectorAll(REMOVED).forEach(element => element.remove());
+  // Site headers and footers, but not those of an article
+  dom.querySelectorAll('header, footer').forEach(element => {
+    if (!element.parentElement?.closest('main, article')) element.remove();
+  });
+  const pageLength = dom.body ? textLength(dom.body) : 0;
+  dom.querySelectorAll('[id], [class]').forEach(element => {
+    if (element.isConnected && isBoilerplate(element, pageLength)) element.remove();
+  });
+
+  const articles = dom.querySelectorAll('article');
+  const root = dom.querySelector('main, [role="main"]') ?? (articles.length === 1 ? articles[0] : dom.body);
+  const content = root ? toBlocks(root).join('\n\n') : '';
+  if (!content.trim()) {
+    throw new ExtractionError('No text found in this web page.');
+  }
+  return { content, title };
+};
@@ -0,0 +1,47 @@
+import { ExtractedDocument, ExtractionError, ExtractionProgress } from './types';
+
+export * from './types';
+
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.json', '.pdf', '.docx', '.html', '.htm', '.csv', '.tsv'];
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+
+export const isSupportedFile = (fileName: string) => SUPPORTED_EXTENSIONS.includes(extensionOf(fileName));
+
+// DOCX and HTML parsing rely on DOMParser, which is not available inside Web Workers
+export const requiresDom = (fileName: string) => ['.docx', '.html', '.htm'].includes(extensionOf(fileName));
+
+// Turn an uploaded file into plain text, dispatching on its extension.
+// PDF, DOCX and HTML parsers are loaded on demand so plain-text uploads stay lightweight.
+export const extractFile = async (file: File, onProgress?: ExtractionProgress): Promise<ExtractedDocument> => {
+  const extension = extensionOf(file.name);
+  const title = file.name.replace(/\.[^/.]+$/, '');
+
+  switch (extension) {
+    case '.pdf': {
+      const { extractPdf } = await import('./pdf');
+      const { content, pages } = await extractPdf(await file.arrayBuffer(), onProgress);
+      return { title, content, pages, fileName: file.name };
+    }
+    case '.docx': {
+      const { extractDocx } = await import('./docx');
+      const { content } = await extractDocx(await file.arrayBuffer());
+      return { title, content, fileName: file.name };
+    }
+    case '.html':
+    case '.htm': {
+      const { extractHtml } = await import('./html');
+      const page = extractHtml(await file.text());
+      return { title: page.title ?? title, content: page.content, fileName: file.name };
+    }
+    case '.csv':
+    case '.tsv':
+      return { title, content: await file.text(), fileName: file.name, format: extension === '.csv' ? 'csv' : 'tsv' };
+    case '.txt':
+    case '.md':
+    case '.json':
+      return { title, content: await file.text(), fileName: file.name };
+    default:
+      throw new ExtractionError(`Unsupported file type "${extension || file.name}". Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+};
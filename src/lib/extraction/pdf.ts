@@ -0,0 +1,56 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ExtractionError, ExtractionProgress, PageSpan } from './types';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+interface PdfTextItem {
+  str: string;
+  hasEOL?: boolean;
+}
+
+// Extract text page by page, recording where each page starts and ends in the joined content
+export const extractPdf = async (
+  data: ArrayBuffer,
+  onProgress?: ExtractionProgress
+): Promise<{ content: string; pages: PageSpan[] }> => {
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (error) {
+    const name = error instanceof Error ? error.name : '';
+    if (name === 'PasswordException') {
+      throw new ExtractionError('This PDF is password-protected. Remove the password and upload it again.');
+    }
+    throw new ExtractionError('This PDF could not be read. The file may be corrupt or not a PDF.');
+  }
+
+  const pages: PageSpan[] = [];
+  let content = '';
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const text = (textContent.items as PdfTextItem[])
+        .map(item => item.str + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+
+      if (content) content += '\n\n';
+      const start = content.length;
+      content += text;
+      pages.push({ page: pageNumber, start, end: content.length });
+      await onProgress?.(pageNumber / pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (!content.trim()) {
+    throw new ExtractionError('No text found in this PDF. Scanned documents need OCR before upload.');
+  }
+
+  return { content, pages };
+};
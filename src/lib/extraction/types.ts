@@ -0,0 +1,27 @@
+import { TableFormat } from '../chunking/types';
+
+// Character range of one page within the extracted text
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export interface ExtractedDocument {
+  title: string;
+  content: string;
+  fileName: string;
+  pages?: PageSpan[];
+  // Set for CSV and TSV files, whose text is kept as is and chunked by rows
+  format?: TableFormat;
+}
+
+// Called with the fraction of the file processed so far; may throw to abort extraction
+export type ExtractionProgress = (progress: number) => void | Promise<void>;
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
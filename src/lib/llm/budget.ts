@@ -0,0 +1,41 @@
+import { countTokens } from '../chunking';
+import { buildMessages, formatPassage } from './prompt';
+import { ContextPassage, LlmMessage, LlmSettings } from './types';
+
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Context windows of common model families, matched against the model name; first match wins
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo|\bo[134]\b|\bo[134]-/i, 128000],
+  [/gpt-4-32k/i, 32768],
+  [/gpt-4/i, 8192],
+  [/gpt-3\.5/i, 16385],
+  [/llama-?3\.[1-3]|llama-?4/i, 131072],
+  [/llama-?3/i, 8192],
+  [/llama-?2/i, 4096],
+  [/mistral-nemo|mistral-large|qwen-?2\.5|qwen-?3|phi-?3\.5|phi-?4|deepseek/i, 32768],
+  [/mistral|mixtral|qwen/i, 32768],
+  [/gemma-?[23]/i, 8192],
+  [/phi-?3/i, 4096]
+];
+
+// Chat formats wrap every message in a few tokens of their own
+const MESSAGE_OVERHEAD = 4;
+
+export const contextWindowFor = ({ contextWindow, model }: Pick<LlmSettings, 'contextWindow' | 'model'>): number =>
+  contextWindow > 0
+    ? contextWindow
+    : MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+
+export const countMessageTokens = (messages: LlmMessage[]): number =>
+  messages.reduce((total, message) => total + countTokens(message.content) + MESSAGE_OVERHEAD, 0);
+
+// Tokens a passage adds to the context, including the blank line that separates it
+export const passageTokens = (passage: ContextPassage): number => countTokens(formatPassage(passage)) + 1;
+
+// Tokens left for passages once the templates, history, question and answer are accounted for
+export const contextBudget = (query: string, history: LlmMessage[], settings: LlmSettings): number =>
+  Math.max(
+    0,
+    contextWindowFor(settings) - settings.maxAnswerTokens - countMessageTokens(buildMessages(query, [], settings, history))
+  );
@@ -0,0 +1,65 @@
+import { LlmMessage, LlmProvider } from './types';
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'what', 'when', 'where', 'which', 'who', 'why', 'how', 'does', 'did',
+  'this', 'that', 'these', 'those', 'with', 'from', 'about', 'into', 'than', 'then', 'them', 'they',
+  'their', 'there', 'its', 'also', 'would', 'could', 'should', 'will', 'more', 'some', 'such',
+  'tell', 'explain', 'please', 'between', 'other', 'second', 'first', 'third', 'last'
+]);
+
+// Words that usually point back to something said earlier
+const FOLLOW_UP = /\b(it|its|they|them|their|this|that|these|those|he|she|his|her|one|ones|former|latter|same|above|previous|first|second|third|last|other|else)\b|^(and|but|also|what about|how about)\b/i;
+
+const CONDENSE_PROMPT =
+  'Rewrite the final user question as a standalone search query that can be understood without ' +
+  'the conversation. Resolve pronouns and references using the conversation. ' +
+  'Reply with the query only, no explanation. If the question is already standalone, repeat it unchanged.';
+
+const keywords = (text: string) =>
+  text.toLowerCase().split(/\W+/).filter(w => w.length > 2 && !STOPWORDS.has(w));
+
+// Heuristic fallback: a short or referential question borrows the key terms of the previous question
+export const condenseHeuristically = (question: string, history: LlmMessage[]): string => {
+  const previousQuestion = [...history].reverse().find(m => m.role === 'user');
+  if (!previousQuestion) return question;
+
+  const ownTerms = keywords(question);
+  if (!FOLLOW_UP.test(question.trim()) && ownTerms.length >= 3) return question;
+
+  const known = new Set(ownTerms);
+  const borrowed = [...new Set(keywords(previousQuestion.content))].filter(w => !known.has(w));
+  return borrowed.length > 0 ? `${question} (${borrowed.join(' ')})` : question;
+};
+
+// Rewrite the latest question into a standalone query, through the LLM when one is available
+export const condenseQuery = async (
+  question: string,
+  history: LlmMessage[],
+  provider: LlmProvider | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (history.length === 0) return question;
+  if (!provider) return condenseHeuristically(question, history);
+
+  const transcript = history
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+    .join('\n');
+
+  try {
+    const rewritten = await provider.complete({
+      messages: [
+        { role: 'system', content: CONDENSE_PROMPT },
+        { role: 'user', content: `Conversation:\n${transcript}\n\nFinal question: ${question}` }
+      ],
+      temperature: 0,
+      signal
+    });
+    const query = rewritten.trim().replace(/^["']|["']$/g, '');
+    return query || question;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Query condensation failed, using heuristic rewrite', error);
+    return condenseHeuristically(question, history);
+  }
+};
@@ -0,0 +1,42 @@
+import { LlmProvider, LlmProviderKind, LlmSettings } from './types';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { OllamaProvider } from './ollama';
+import { DEFAULT_ANSWER_TEMPLATE, DEFAULT_SYSTEM_PROMPT } from './prompt';
+import { contextWindowFor } from './budget';
+
+export * from './types';
+export { buildMessages, historyWindow, DEFAULT_ANSWER_TEMPLATE, DEFAULT_SYSTEM_PROMPT } from './prompt';
+export { contextBudget, contextWindowFor, passageTokens, DEFAULT_CONTEXT_WINDOW } from './budget';
+export { condenseQuery, condenseHeuristically } from './condense';
+
+export const DEFAULT_BASE_URLS: Record<LlmProviderKind, string> = {
+  mock: '',
+  openai: 'http://localhost:8000/v1',
+  ollama: 'http://localhost:11434'
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'mock',
+  baseUrl: '',
+  model: 'llama3',
+  apiKey: '',
+  temperature: 0.2,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  answerTemplate: DEFAULT_ANSWER_TEMPLATE,
+  contextWindow: 0,
+  maxAnswerTokens: 512,
+  neighbourChunks: 1
+};
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.baseUrl, settings.model, settings.apiKey || undefined);
+    case 'ollama':
+      return new OllamaProvider(settings.baseUrl, settings.model, contextWindowFor(settings));
+    case 'mock':
+    default:
+      return new MockProvider();
+  }
+};
@@ -0,0 +1,55 @@
+import { LlmProvider, LlmRequest } from './types';
+import { CONTEXT_MARKER, QUESTION_MARKER } from './prompt';
+
+// Deterministic offline provider: echoes the start of the retrieved context back to the user
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+
+  async complete({ messages }: LlmRequest): Promise<string> {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const prompt = lastUser?.content ?? '';
+
+    const contextStart = prompt.indexOf(CONTEXT_MARKER);
+    const questionStart = prompt.indexOf(QUESTION_MARKER);
+    if (contextStart === -1) {
+      return "I'm running in offline mode and have no context to answer from.";
+    }
+
+    const context = prompt
+      .substring(contextStart + CONTEXT_MARKER.length, questionStart === -1 ? undefined : questionStart)
+      .trim();
+
+    // Passages are introduced by "[n] Title" or "[n][m] Title" header lines
+    const passages = [...context.matchAll(/^((?:\[\d+\])+) [^\n]*\n([\s\S]*?)(?=\n\n(?:\[\d+\])+ |$(?![\s\S]))/gm)]
+      .map(match => ({ ids: match[1], text: match[2].replace(/\s+/g, ' ').trim() }));
+
+    if (passages.length === 0) {
+      return `Based on the documents you've uploaded: ${context.substring(0, 200)}...`;
+    }
+
+    const quoted = passages
+      .slice(0, 3)
+      .map(p => `${p.text.length > 160 ? `${p.text.substring(0, 160)}...` : p.text} ${p.ids}`)
+      .join('\n\n');
+
+    return `Based on the documents you've uploaded, I can provide the following information:
+
+${quoted}
+
+This answer was assembled offline from ${passages.length} passage${passages.length !== 1 ? 's' : ''} in your knowledge base. Configure an LLM provider in the settings for generated answers.`;
+  }
+
+  // Replay the deterministic answer word by word so the streaming UI can be exercised offline
+  async *stream(request: LlmRequest): AsyncGenerator<string> {
+    const answer = await this.complete(request);
+    const tokens = answer.match(/\S+\s*/g) ?? [];
+
+    for (const token of tokens) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+      yield token;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { LlmError, LlmProvider, LlmRequest } from './types';
+import { readLines } from './stream';
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  done?: boolean;
+}
+
+// Talks to a local Ollama server through its native /api/chat endpoint
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'ollama';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    // Ollama cuts prompts at its own default context length unless told otherwise
+    private readonly contextWindow: number
+  ) {}
+
+  private async request({ messages, temperature, signal }: LlmRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        stream,
+        options: { temperature, num_ctx: this.contextWindow }
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmError(`Ollama request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response;
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const response = await this.request(request, false);
+    const data = (await response.json()) as OllamaChatResponse;
+    const content = data.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmError('Ollama response did not contain a message');
+    }
+    return content;
+  }
+
+  // Ollama streams newline-delimited JSON objects rather than SSE
+  async *stream(request: LlmRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      if (chunk.message?.content) {
+        yield chunk.message.content;
+      }
+      if (chunk.done) return;
+    }
+  }
+}
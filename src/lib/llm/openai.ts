@@ -0,0 +1,64 @@
+import { LlmError, LlmProvider, LlmRequest } from './types';
+import { readServerSentEvents } from './stream';
+
+interface OpenAIChatResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface OpenAIChatChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Works with any server implementing the OpenAI chat-completions API (OpenAI, vLLM, llama.cpp server)
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string
+  ) {}
+
+  private async request({ messages, temperature, signal }: LlmRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, messages, temperature, stream }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new LlmError(`Chat completion failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response;
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const response = await this.request(request, false);
+    const data = (await response.json()) as OpenAIChatResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmError('Chat completion response did not contain a message');
+    }
+    return content;
+  }
+
+  async *stream(request: LlmRequest): AsyncGenerator<string> {
+    const response = await this.request(request, true);
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as OpenAIChatChunk;
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+    }
+  }
+}
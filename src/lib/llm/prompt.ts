@@ -0,0 +1,72 @@
+import { ContextPassage, LlmMessage, LlmSettings } from './types';
+
+export const CONTEXT_MARKER = 'Context:';
+export const QUESTION_MARKER = 'Question:';
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful assistant that answers questions using only the provided context. ' +
+  "If the context does not contain the answer, say that you don't know.";
+
+export const DEFAULT_ANSWER_TEMPLATE = '{context}\n\n{question}';
+
+// Part of the prompt contract rather than the editable templates, since the UI relies on the markers
+const CITATION_INSTRUCTION =
+  'Each passage below starts with its number in square brackets, or several numbers when it covers ' +
+  'several search results. Cite the passages you use by writing a number, e.g. [1], right after the ' +
+  'sentence that relies on them.';
+
+// Header line that introduces a passage in the context, e.g. "[2][5] Contract (page 12)"
+export const formatPassageHeader = (passage: ContextPassage): string => {
+  const ids = passage.ids.map(id => `[${id}]`).join('');
+  return `${ids} ${passage.title}${passage.location ? ` (${passage.location})` : ''}`;
+};
+
+export const formatPassage = (passage: ContextPassage): string => `${formatPassageHeader(passage)}\n${passage.text}`;
+
+// Put the marked context and question into the answer template. A placeholder the user removed
+// is added back, the context before the template's text and the question after it, as the answer
+// can't be grounded without either.
+const fillTemplate = (template: string, context: string, query: string): string => {
+  const parts: Record<string, string> = {
+    context: `${CONTEXT_MARKER}\n${context}`,
+    question: `${QUESTION_MARKER} ${query}`
+  };
+  const filled = template.replace(/\{(context|question)\}/g, (_, name: string) => parts[name]).trim();
+  return [
+    template.includes('{context}') ? '' : parts.context,
+    filled,
+    template.includes('{question}') ? '' : parts.question
+  ].filter(Boolean).join('\n\n');
+};
+
+// Assemble the chat messages sent to the provider for a query and the passages chosen for it
+export const buildMessages = (
+  query: string,
+  passages: ContextPassage[],
+  templates: Pick<LlmSettings, 'systemPrompt' | 'answerTemplate'>,
+  history: LlmMessage[] = []
+): LlmMessage[] => {
+  const context = passages.map(formatPassage).join('\n\n');
+
+  return [
+    { role: 'system', content: templates.systemPrompt },
+    ...history,
+    { role: 'user', content: `${CITATION_INSTRUCTION}\n\n${fillTemplate(templates.answerTemplate, context, query)}` }
+  ];
+};
+
+// Most recent turns of a conversation, newest last, within a message count and character budget
+export const historyWindow = (
+  turns: LlmMessage[],
+  maxMessages: number = 6,
+  maxChars: number = 4000
+): LlmMessage[] => {
+  const window: LlmMessage[] = [];
+  let used = 0;
+  for (const turn of [...turns].reverse().slice(0, maxMessages)) {
+    if (used + turn.content.length > maxChars) break;
+    window.unshift(turn);
+    used += turn.content.length;
+  }
+  return window;
+};
@@ -0,0 +1,42 @@
+import { LlmError } from './types';
+
+// Yield complete lines from a chunked fetch body as they arrive
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new LlmError('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Parse the `data:` payloads of a server-sent events stream
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
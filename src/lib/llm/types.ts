@@ -0,0 +1,54 @@
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<string>;
+  stream(request: LlmRequest): AsyncGenerator<string>;
+}
+
+export type LlmProviderKind = 'mock' | 'openai' | 'ollama';
+
+export interface LlmSettings {
+  provider: LlmProviderKind;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  temperature: number;
+  systemPrompt: string;
+  // Wraps the passages and the question in the user turn through {context} and {question}
+  answerTemplate: string;
+  // Tokens the model can attend to; 0 looks the model name up
+  contextWindow: number;
+  // Tokens kept free for the answer
+  maxAnswerTokens: number;
+  // Chunks on each side of a hit added to its passage when the budget allows; 0 adds none
+  neighbourChunks: number;
+}
+
+// A stretch of one document quoted in the prompt. Hits that end up in the same stretch share it.
+export interface ContextPassage {
+  // Citation numbers of the sources it covers, best ranked first
+  ids: number[];
+  title: string;
+  // e.g. "page 4" or "rows 2–20"
+  location?: string;
+  text: string;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
@@ -0,0 +1,100 @@
+import { CodeToken } from './types';
+
+interface Grammar {
+  keywords: string[];
+  // true, null and the like
+  literals: string[];
+  lineComment?: string;
+  blockComments?: boolean;
+}
+
+const C_LIKE_KEYWORDS = [
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'func', 'function', 'if', 'implements',
+  'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'package', 'private', 'protected', 'public',
+  'return', 'static', 'struct', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'
+];
+
+const GRAMMARS: Record<string, Grammar> = {
+  c: { keywords: C_LIKE_KEYWORDS, literals: ['true', 'false', 'null', 'undefined', 'nil'], lineComment: '//', blockComments: true },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'not', 'or', 'pass', 'raise',
+      'return', 'try', 'while', 'with', 'yield'
+    ],
+    literals: ['True', 'False', 'None'],
+    lineComment: '#'
+  },
+  shell: {
+    keywords: ['case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'while'],
+    literals: ['true', 'false'],
+    lineComment: '#'
+  },
+  sql: {
+    keywords: [
+      'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having',
+      'limit', 'as', 'distinct', 'union', 'in', 'is', 'like', 'between', 'case', 'when', 'then', 'else', 'end'
+    ],
+    literals: ['null', 'true', 'false'],
+    lineComment: '--',
+    blockComments: true
+  },
+  json: { keywords: [], literals: ['true', 'false', 'null'] }
+};
+
+const LANGUAGE_GRAMMARS: Record<string, string> = {
+  js: 'c', javascript: 'c', jsx: 'c', ts: 'c', typescript: 'c', tsx: 'c', java: 'c', kotlin: 'c', go: 'c',
+  rust: 'c', swift: 'c', cpp: 'c', 'c++': 'c', cs: 'c', csharp: 'c', php: 'c',
+  py: 'python', python: 'python',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell',
+  sql: 'sql', json: 'json'
+};
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Alternatives a grammar lacks stay in as groups that never match, so group numbers hold
+const NEVER = '((?!))';
+
+const compile = (grammar: Grammar) => new RegExp([
+  grammar.blockComments ? '(\\/\\*[\\s\\S]*?(?:\\*\\/|$))' : NEVER,
+  grammar.lineComment ? `(${escape(grammar.lineComment)}[^\\n]*)` : NEVER,
+  '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+  '(\\b\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?\\b|\\b0x[\\da-f]+\\b)',
+  '([A-Za-z_$][\\w$]*)'
+].join('|'), 'gi');
+
+const PATTERNS = new Map(Object.entries(GRAMMARS).map(([name, grammar]) => [name, compile(grammar)]));
+
+// Without a known language only strings and numbers are told apart
+const PLAIN = compile({ keywords: [], literals: [] });
+
+// Find the spans of code worth colouring. This is a light lexer for common languages rather
+// than a full parser: it knows comments, strings, numbers, keywords and literals.
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  const name = language ? LANGUAGE_GRAMMARS[language.toLowerCase()] : undefined;
+  const grammar = name ? GRAMMARS[name] : undefined;
+  const pattern = name ? PATTERNS.get(name)! : PLAIN;
+  // SQL is written in either case
+  const fold = (word: string) => (name === 'sql' ? word.toLowerCase() : word);
+
+  const tokens: CodeToken[] = [];
+  for (const match of code.matchAll(pattern)) {
+    const [whole, blockComment, lineComment, string, number, word] = match;
+    const start = match.index!;
+    const end = start + whole.length;
+    if (blockComment !== undefined || lineComment !== undefined) {
+      tokens.push({ start, end, kind: 'comment' });
+    } else if (string !== undefined) {
+      tokens.push({ start, end, kind: 'string' });
+    } else if (number !== undefined) {
+      tokens.push({ start, end, kind: 'number' });
+    } else if (word !== undefined && grammar?.keywords.includes(fold(word))) {
+      tokens.push({ start, end, kind: 'keyword' });
+    } else if (word !== undefined && grammar?.literals.includes(fold(word))) {
+      tokens.push({ start, end, kind: 'literal' });
+    }
+  }
+  return tokens;
+};
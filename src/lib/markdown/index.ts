@@ -0,0 +1,3 @@
+export * from './types';
+export { isSafeHref, parseInline, parseMarkdown } from './parser';
+export { highlightCode } from './highlight';
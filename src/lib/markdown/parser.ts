@@ -0,0 +1,209 @@
+import { InlineNode, ListItem, MarkdownBlock, TextRange } from './types';
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Code spans, strong, emphasis, links (images are shown as links) and <autolinks>
+const INLINE = /`([^`\n]+)`|\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__|\*(?=[^\s*])([^*]+?)\*|(?<!\w)_(?=[^\s_])([^_]+?)_(?!\w)|(!?)\[([^\]\n]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|<(https?:\/\/[^>\s]+)>/g;
+
+const SAFE_HREF = /^(https?:|mailto:|#|\/|\.\.?\/)/i;
+
+export const isSafeHref = (href: string): boolean => SAFE_HREF.test(href.trim());
+
+interface Line extends TextRange {
+  text: string;
+}
+
+const splitLines = (content: string): Line[] => {
+  const lines: Line[] = [];
+  let position = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ text, start: position, end: position + text.length });
+    position += text.length + 1;
+  }
+  return lines;
+};
+
+export const parseInline = (content: string, start: number, end: number): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const text = content.slice(start, end);
+  let position = 0;
+
+  const pushText = (to: number) => {
+    if (to > position) nodes.push({ type: 'text', start: start + position, end: start + to });
+  };
+  const inner = (offset: number, length: number) => parseInline(content, start + offset, start + offset + length);
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index!;
+    pushText(index);
+    const [whole, code, strong, strongAlt, emphasis, emphasisAlt, image, label, href, autolink] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', start: start + index + 1, end: start + index + 1 + code.length });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: inner(index + 2, (strong ?? strongAlt).length) });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({ type: 'emphasis', children: inner(index + 1, (emphasis ?? emphasisAlt).length) });
+    } else if (label !== undefined) {
+      nodes.push({
+        type: 'link',
+        href: isSafeHref(href) ? href : undefined,
+        children: inner(index + image.length + 1, label.length)
+      });
+    } else {
+      nodes.push({ type: 'link', href: autolink, children: inner(index + 1, autolink.length) });
+    }
+    position = index + whole.length;
+  }
+
+  pushText(text.length);
+  return nodes;
+};
+
+// Cells of a `| a | b |` row, trimmed, with their offsets
+const splitRow = (content: string, line: Line): InlineNode[][] => {
+  const cells: InlineNode[][] = [];
+  let text = line.text;
+  let offset = line.start;
+  const leading = text.match(/^\s*\|/);
+  if (leading) {
+    text = text.slice(leading[0].length);
+    offset += leading[0].length;
+  }
+  text = text.replace(/\|\s*$/, '');
+
+  let cellStart = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (i < text.length && (text[i] !== '|' || text[i - 1] === '\\')) continue;
+    const raw = text.slice(cellStart, i);
+    const from = offset + cellStart + (raw.length - raw.trimStart().length);
+    const to = offset + cellStart + raw.trimEnd().length;
+    cells.push(parseInline(content, from, Math.max(from, to)));
+    cellStart = i + 1;
+  }
+  return cells;
+};
+
+const startsBlock = (lines: Line[], i: number) => {
+  const text = lines[i].text;
+  return HEADING.test(text) || FENCE.test(text) || RULE.test(text) || QUOTE.test(text) || LIST_ITEM.test(text) ||
+    (text.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1].text));
+};
+
+// Parse Markdown into display blocks. Covers the common subset: ATX headings, paragraphs,
+// fenced code, block quotes, (nested) lists, pipe tables, rules and inline formatting.
+export const parseMarkdown = (content: string): MarkdownBlock[] => {
+  const lines = splitLines(content);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const text = line.text;
+
+    if (!text.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(fence[1])) j++;
+      const codeStart = i + 1 < lines.length ? lines[i + 1].start : line.end;
+      const codeEnd = j > i + 1 ? lines[j - 1].end : codeStart;
+      blocks.push({
+        type: 'code',
+        language: fence[2] || undefined,
+        code: { start: codeStart, end: codeEnd },
+        start: line.start,
+        end: lines[Math.min(j, lines.length - 1)].end
+      });
+      i = j + 1;
+      continue;
+    }
+
+    const heading = text.match(HEADING);
+    if (heading) {
+      const from = line.start + text.indexOf(heading[2], heading[1].length);
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(content, from, from + heading[2].length),
+        start: line.start,
+        end: line.end
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      blocks.push({ type: 'rule', start: line.start, end: line.end });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(text)) {
+      const children: InlineNode[] = [];
+      let j = i;
+      while (j < lines.length && QUOTE.test(lines[j].text)) {
+        const marker = lines[j].text.match(QUOTE)![0];
+        // The newline between quoted lines is kept as a source range of its own
+        if (j > i) children.push({ type: 'text', start: lines[j - 1].end, end: lines[j].start });
+        children.push(...parseInline(content, lines[j].start + marker.length, lines[j].end));
+        j++;
+      }
+      blocks.push({ type: 'quote', children, start: line.start, end: lines[j - 1].end });
+      i = j;
+      continue;
+    }
+
+    const item = text.match(LIST_ITEM);
+    if (item) {
+      const items: ListItem[] = [];
+      const baseIndent = item[1].length;
+      let j = i;
+      while (j < lines.length && lines[j].text.trim()) {
+        const marker = lines[j].text.match(LIST_ITEM);
+        if (marker) {
+          const from = lines[j].start + marker[0].length;
+          items.push({ depth: Math.max(0, Math.floor((marker[1].length - baseIndent) / 2)), children: [] });
+          let k = j + 1;
+          // Wrapped lines belong to the item above them
+          while (k < lines.length && lines[k].text.trim() && !startsBlock(lines, k)) k++;
+          items[items.length - 1].children = parseInline(content, from, lines[k - 1].end);
+          j = k;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered: /\d/.test(item[2]), items, start: line.start, end: lines[j - 1].end });
+      i = j;
+      continue;
+    }
+
+    if (text.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1].text)) {
+      const rows: InlineNode[][][] = [];
+      let j = i + 2;
+      while (j < lines.length && lines[j].text.includes('|') && lines[j].text.trim()) {
+        rows.push(splitRow(content, lines[j]));
+        j++;
+      }
+      blocks.push({ type: 'table', header: splitRow(content, line), rows, start: line.start, end: lines[j - 1].end });
+      i = j;
+      continue;
+    }
+
+    let j = i + 1;
+    while (j < lines.length && lines[j].text.trim() && !startsBlock(lines, j)) j++;
+    blocks.push({ type: 'paragraph', children: parseInline(content, line.start, lines[j - 1].end), start: line.start, end: lines[j - 1].end });
+    i = j;
+  }
+
+  return blocks;
+};
@@ -0,0 +1,33 @@
+// Markdown parsed for display. Nodes keep character ranges into the source instead of
+// copies of the text, so highlights computed on the raw content line up with what is rendered.
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export type InlineNode =
+  | ({ type: 'text' | 'code' } & TextRange)
+  | { type: 'strong' | 'emphasis'; children: InlineNode[] }
+  // href is only set for schemes that are safe to follow
+  | { type: 'link'; href?: string; children: InlineNode[] };
+
+export interface ListItem {
+  // Nesting level from the indentation, 0 for top-level items
+  depth: number;
+  children: InlineNode[];
+}
+
+export type MarkdownBlock = TextRange & (
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph' | 'quote'; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'code'; language?: string; code: TextRange }
+  | { type: 'table'; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'rule' }
+);
+
+// A span of a code block to colour, with offsets into the code
+export interface CodeToken extends TextRange {
+  kind: 'keyword' | 'string' | 'comment' | 'number' | 'literal';
+}
@@ -0,0 +1,10 @@
+export * from './types';
+export { BUILT_IN_RULES, compileCustomRule, patternError, redactionRules } from './rules';
+export {
+  applyRedactions,
+  defaultActions,
+  formatDecisions,
+  groupFindings,
+  REDACTION_ACTION_LABELS,
+  scanText
+} from './redact';
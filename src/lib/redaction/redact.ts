@@ -0,0 +1,84 @@
+import { PageSpan } from '../extraction/types';
+import { FindingGroup, RedactedContent, RedactionAction, RedactionDecision, RedactionFinding, RedactionRule } from './types';
+
+export const REDACTION_ACTION_LABELS: Record<RedactionAction, string> = {
+  redact: 'Redact',
+  mask: 'Mask',
+  keep: 'Keep'
+};
+
+const placeholder = (rule: RedactionRule) => `[REDACTED ${rule.label.toUpperCase()}]`;
+
+// Find sensitive values in the text. Where findings of different rules overlap, the rule listed
+// first wins.
+export const scanText = (content: string, rules: RedactionRule[]): RedactionFinding[] => {
+  const findings: RedactionFinding[] = [];
+  for (const rule of rules) {
+    for (const match of content.matchAll(rule.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (start === end || (rule.validate && !rule.validate(match[0]))) continue;
+      if (findings.some(finding => finding.start < end && finding.end > start)) continue;
+      findings.push({ ruleId: rule.id, start, end, value: match[0] });
+    }
+  }
+  return findings.sort((a, b) => a.start - b.start);
+};
+
+export const groupFindings = (findings: RedactionFinding[], rules: RedactionRule[]): FindingGroup[] => rules
+  .map(rule => ({ rule, findings: findings.filter(finding => finding.ruleId === rule.id) }))
+  .filter(group => group.findings.length > 0);
+
+// Each rule's own default, for uploads that skip the report
+export const defaultActions = (groups: FindingGroup[]): Record<string, RedactionAction> =>
+  Object.fromEntries(groups.map(({ rule }) => [rule.id, rule.defaultAction]));
+
+// Replace or mask the findings as chosen per rule. Page offsets are moved to match the new text.
+export const applyRedactions = (
+  content: string,
+  groups: FindingGroup[],
+  actions: Record<string, RedactionAction>,
+  pages?: PageSpan[]
+): RedactedContent => {
+  const edits = groups
+    .flatMap(({ rule, findings }) => {
+      const action = actions[rule.id] ?? rule.defaultAction;
+      if (action === 'keep') return [];
+      return findings.map(finding => ({
+        ...finding,
+        replacement: action === 'redact' ? placeholder(rule) : rule.mask(finding.value)
+      }));
+    })
+    .sort((a, b) => a.start - b.start);
+
+  let redacted = '';
+  let position = 0;
+  for (const edit of edits) {
+    redacted += content.slice(position, edit.start) + edit.replacement;
+    position = edit.end;
+  }
+  redacted += content.slice(position);
+
+  // An offset inside a replaced value moves to the start of its replacement
+  const moveOffset = (offset: number) => edits.reduce((moved, edit) => {
+    if (offset >= edit.end) return moved + edit.replacement.length - (edit.end - edit.start);
+    if (offset > edit.start) return moved - (offset - edit.start);
+    return moved;
+  }, offset);
+
+  return {
+    content: redacted,
+    pages: pages?.map(page => ({ ...page, start: moveOffset(page.start), end: moveOffset(page.end) })),
+    decisions: groups.map(({ rule, findings }) => ({
+      ruleId: rule.id,
+      label: rule.label,
+      action: actions[rule.id] ?? rule.defaultAction,
+      count: findings.length
+    }))
+  };
+};
+
+// e.g. "Email address ×2 masked, API key ×1 redacted"
+export const formatDecisions = (decisions: RedactionDecision[]) => decisions
+  .map(({ label, count, action }) => `${label} ×${count} ${action === 'keep' ? 'kept' : `${action}ed`}`)
+  .join(', ');
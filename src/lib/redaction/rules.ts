@@ -0,0 +1,152 @@
+import { CustomRedactionRule, RedactionRule, RedactionRuleError } from './types';
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Hide every digit but the last few, keeping spaces and dashes so the shape stays readable
+const maskDigits = (keep: number) => (value: string) => {
+  let remaining = digitsOf(value).length - keep;
+  return value.replace(/\d/g, digit => (remaining-- > 0 ? '•' : digit));
+};
+
+// Keep a few characters at each end of a long value, enough to tell keys apart
+const maskMiddle = (value: string) =>
+  value.length >= 16 ? `${value.slice(0, 4)}…${value.slice(-4)}` : '•'.repeat(value.length);
+
+const maskEmail = (value: string) => {
+  const at = value.lastIndexOf('@');
+  return `${value[0]}${'•'.repeat(Math.max(at - 1, 1))}${value.slice(at)}`;
+};
+
+// Luhn checksum of payment card numbers
+const passesLuhn = (value: string) => {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616 check digits: the rearranged number, read with letters as 10–35, is 1 modulo 97
+const isValidIban = (value: string) => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const numeric = `${iban.slice(4)}${iban.slice(0, 4)}`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// Dates such as 15.01.2024, 01/15/24 or 2024-01-15, whatever the separator
+const isDate = (value: string) => {
+  const match = value.match(/^(\d+)([./-])(\d+)\2(\d+)$/);
+  if (!match) return false;
+  const [, first, , second, third] = match;
+  const isDayAndMonth = (day: string, month: string) =>
+    Number(day) >= 1 && Number(day) <= 31 && Number(month) >= 1 && Number(month) <= 12;
+  if (first.length === 4) return isDayAndMonth(third, second);
+  return first.length <= 2 && second.length <= 2 && (third.length === 2 || third.length === 4) &&
+    (isDayAndMonth(first, second) || isDayAndMonth(second, first));
+};
+
+const isIpAddress = (value: string) =>
+  /^\d{1,3}(?:\.\d{1,3}){3}$/.test(value) && value.split('.').every(part => Number(part) <= 255);
+
+// 1234.5678, or 12.345.678 with dots separating thousands
+const isDecimal = (value: string) => /^\d+\.\d+$/.test(value) || /^\d{1,3}(?:\.\d{3})+$/.test(value);
+
+// Phone numbers have 8 to 15 digits; dates, IP addresses, decimals and plain numbers without
+// separators are left alone
+
+const isPhoneNumber = (value: string) => {
+  const digits = digitsOf(value).length;
+  return digits >= 8 && digits <= 15 &&
+    !isDate(value) && !isIpAddress(value) && !isDecimal(value) &&
+    (/[\s().-]/.test(value) || value.startsWith('+'));
+};
+
+// Earlier rules win where findings overlap, so the more specific patterns come first
+export const BUILT_IN_RULES: RedactionRule[] = [
+  {
+    id: 'token',
+    label: 'Token',
+    // Private key blocks, JSON Web Tokens and bearer tokens
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----|\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}|(?<=\bBearer\s+)[\w.~+/-]{20,}=*/g,
+    mask: maskMiddle,
+    defaultAction: 'redact'
+  },
+  {
+    id: 'apiKey',
+    label: 'API key',
+    // Keys with a well-known prefix, and values assigned to names such as api_key or secret
+    pattern: /\b(?:sk-(?:proj-)?[A-Za-z0-9_-]{20,}|sk_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[\w-]{35}|glpat-[\w-]{20})\b|(?<=\b(?:api[_-]?key|apikey|secret(?:[_-]?key)?|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd)["']?\s*[:=]\s*["']?)[^\s"',;]{8,}/gi,
+    mask: maskMiddle,
+    defaultAction: 'redact'
+  },
+  {
+    id: 'iban',
+    label: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+    mask: value => `${value.slice(0, 4)}${value.slice(4, -4).replace(/[A-Z0-9]/gi, '•')}${value.slice(-4)}`,
+    defaultAction: 'redact'
+  },
+  {
+    id: 'card',
+    label: 'Card number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+    mask: maskDigits(4),
+    defaultAction: 'redact'
+  },
+  {
+    id: 'email',
+    label: 'Email address',
+    pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+    mask: maskEmail,
+    defaultAction: 'mask'
+  },
+  {
+    id: 'phone',
+    label: 'Phone number',
+    // International numbers may group their digits in ones, e.g. +33 6 12 34 56 78; a number that
+    // continues past the match, e.g. the rest of a longer decimal or IP address, is not matched
+    pattern: /(?<![\w+.,-])(?:\+\d{1,3}(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){2,6}|(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4})(?![\w-]|[.,]\d)/g,
+    validate: isPhoneNumber,
+    mask: maskDigits(2),
+    defaultAction: 'mask'
+  }
+];
+
+// Why a custom pattern can't be used, or null when it is fine
+export const patternError = (pattern: string): string | null => {
+  if (!pattern) return 'The pattern is empty.';
+  try {
+    new RegExp(pattern, 'g');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression.';
+  }
+  return new RegExp(pattern).test('') ? 'The pattern matches empty text.' : null;
+};
+
+export const compileCustomRule = ({ id, label, pattern }: CustomRedactionRule): RedactionRule => {
+  const error = patternError(pattern);
+  if (error) {
+    throw new RedactionRuleError(`Rule "${label}": ${error}`);
+  }
+  return { id, label, pattern: new RegExp(pattern, 'g'), mask: maskMiddle, defaultAction: 'redact' };
+};
+
+// Built-in rules followed by the user's; custom rules that don't compile are left out
+export const redactionRules = (custom: CustomRedactionRule[] = []): RedactionRule[] => [
+  ...BUILT_IN_RULES,
+  ...custom.filter(rule => patternError(rule.pattern) === null).map(compileCustomRule)
+];
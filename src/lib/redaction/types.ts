@@ -0,0 +1,59 @@
+import { PageSpan } from '../extraction/types';
+
+// What happens to the values a rule finds: replaced by a placeholder, partly hidden, or left as they are
+export type RedactionAction = 'redact' | 'mask' | 'keep';
+
+// A pattern for sensitive data, either built in or defined by the user
+export interface RedactionRule {
+  id: string;
+  label: string;
+  // Must have the g flag
+  pattern: RegExp;
+  // Rejects matches that only look right, e.g. card numbers failing the Luhn check
+  validate?: (value: string) => boolean;
+  mask: (value: string) => string;
+  defaultAction: RedactionAction;
+}
+
+// A user-defined rule as stored in the settings
+export interface CustomRedactionRule {
+  id: string;
+  label: string;
+  // Regular expression source, matched case-sensitively
+  pattern: string;
+}
+
+export interface RedactionFinding {
+  ruleId: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// The findings of one rule, as listed in the report
+export interface FindingGroup {
+  rule: RedactionRule;
+  findings: RedactionFinding[];
+}
+
+// The choice made for one rule that found something. Recorded on the document without the values.
+export interface RedactionDecision {
+  ruleId: string;
+  label: string;
+  action: RedactionAction;
+  count: number;
+}
+
+// Text after redaction, with page offsets moved to match, and what was done to it
+export interface RedactedContent {
+  content: string;
+  pages?: PageSpan[];
+  decisions: RedactionDecision[];
+}
+
+export class RedactionRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedactionRuleError';
+  }
+}
@@ -0,0 +1,156 @@
+import { detectLanguage } from '../analysis/detect';
+import { Language } from '../analysis/types';
+import { EmbeddingProvider } from '../embeddings/types';
+import { InvertedIndex } from '../search/bm25';
+import { applyFeedback, ChunkBoost } from '../search/feedback';
+import { denseSearch, fuseHits, HybridHit, RetrievalSettings } from '../search/hybrid';
+import { Token, tokenize } from '../search/tokenizer';
+
+export interface RetrievalQuery {
+  query: string;
+  // Documents the query may draw on; all indexed documents when omitted
+  docIds?: string[];
+  settings: RetrievalSettings;
+  minRelevance: number;
+  limit: number;
+  // Relevance feedback from similar past queries
+  boosts?: ChunkBoost[];
+}
+
+// Why a candidate did not make it into the results
+export type CutReason = 'threshold' | 'topK';
+
+export interface InspectedHit extends HybridHit {
+  // 1-based position among all candidates
+  rank: number;
+  cut?: CutReason;
+}
+
+export interface RetrievalInspection {
+  candidates: InspectedHit[];
+  // Number of candidates before `maxCandidates` was applied
+  total: number;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  model: string;
+}
+
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Lexical index plus chunk vectors for a set of documents, with no dependency on the browser,
+// so the same retrieval runs in the app's worker, in Node scripts and in evaluations
+export class Retriever {
+  private readonly index = new InvertedIndex();
+  private readonly vectors = new Map<string, EmbeddingResult>();
+  // Bumped whenever a document's chunks change, so vectors computed for older chunks are dropped
+  private readonly generations = new Map<string, number>();
+
+  constructor(private embeddingProvider: EmbeddingProvider) {}
+
+  get embeddingModel(): string {
+    return this.embeddingProvider.id;
+  }
+
+  setEmbeddingProvider(provider: EmbeddingProvider): void {
+    this.embeddingProvider = provider;
+  }
+
+  // The language is detected from the chunks when not given
+  addDocument(docId: string, chunks: string[], language: Language = detectLanguage(chunks.join('\n')).language): void {
+    this.addTokenizedDocument(docId, chunks.map(text => tokenize(text, language)), language);
+  }
+
+  addTokenizedDocument(docId: string, chunks: Token[][], language: Language): void {
+    this.index.addTokenizedDocument(docId, chunks, language);
+    this.vectors.delete(docId);
+    this.bumpGeneration(docId);
+  }
+
+  removeDocument(docId: string): void {
+    this.index.removeDocument(docId);
+    this.vectors.delete(docId);
+    this.bumpGeneration(docId);
+  }
+
+  generation(docId: string): number {
+    return this.generations.get(docId) ?? 0;
+  }
+
+  // Store vectors unless the document changed since `generation` was read
+  setEmbeddings(docId: string, result: EmbeddingResult, generation: number = this.generation(docId)): void {
+    if (generation === this.generation(docId)) {
+      this.vectors.set(docId, result);
+    }
+  }
+
+  // Embed chunk texts in batches; `onBatch` may throw to abort between batches
+  async embed(texts: string[], onBatch?: (progress: number) => Promise<void>): Promise<EmbeddingResult> {
+    const provider = this.embeddingProvider;
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      await onBatch?.(i / texts.length);
+      embeddings.push(...await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+    }
+    return { embeddings, model: provider.id };
+  }
+
+  async embedDocument(docId: string, texts: string[]): Promise<EmbeddingResult> {
+    const generation = this.generation(docId);
+    const result = await this.embed(texts);
+    this.setEmbeddings(docId, result, generation);
+    return result;
+  }
+
+  async search(request: RetrievalQuery): Promise<HybridHit[]> {
+    return (await this.rank(request))
+      .filter(hit => hit.relevance > request.minRelevance)
+      .slice(0, request.limit);
+  }
+
+  // Every candidate the search considered, in rank order, with the reason it was left out if it was
+  async inspect(request: RetrievalQuery, maxCandidates: number): Promise<RetrievalInspection> {
+    const ranked = await this.rank(request);
+    let kept = 0;
+    const candidates = ranked.slice(0, maxCandidates).map((hit, i): InspectedHit => {
+      let cut: CutReason | undefined;
+      if (hit.relevance <= request.minRelevance) {
+        cut = 'threshold';
+      } else if (kept >= request.limit) {
+        cut = 'topK';
+      } else {
+        kept++;
+      }
+      return { ...hit, rank: i + 1, cut };
+    });
+    return { candidates, total: ranked.length };
+  }
+
+  private async rank({ query, docIds, settings, boosts = [] }: RetrievalQuery): Promise<HybridHit[]> {
+    const allowed = docIds ? new Set(docIds) : null;
+    const lexicalHits = this.index.search(query, settings).filter(hit => !allowed || allowed.has(hit.docId));
+
+    // Only compare vectors produced by the active embedding model
+    const provider = this.embeddingProvider;
+    const embedded = [...this.vectors.entries()]
+      .filter(([id, entry]) => (!allowed || allowed.has(id)) && entry.model === provider.id)
+      .map(([id, entry]) => ({ id, embeddings: entry.embeddings }));
+
+    let denseHits: ReturnType<typeof denseSearch> = [];
+    if (embedded.length > 0 && settings.denseWeight > 0) {
+      try {
+        const [queryVector] = await provider.embed([query]);
+        denseHits = denseSearch(queryVector, embedded);
+      } catch (error) {
+        console.warn('Query embedding failed, falling back to lexical retrieval', error);
+      }
+    }
+
+    return applyFeedback(fuseHits(lexicalHits, denseHits, settings), boosts, settings.feedbackWeight);
+  }
+
+  private bumpGeneration(docId: string): void {
+    this.generations.set(docId, this.generation(docId) + 1);
+  }
+}
@@ -0,0 +1,288 @@
+import { Language } from '../analysis/types';
+import { tokenize, Token } from './tokenizer';
+
+export interface Bm25Options {
+  k1: number;
+  b: number;
+  phraseWeight: number;
+  proximityWeight: number;
+}
+
+export const DEFAULT_BM25_OPTIONS: Bm25Options = {
+  k1: 1.2,
+  b: 0.75,
+  phraseWeight: 0.5,
+  proximityWeight: 0.3
+};
+
+export interface ScoreBreakdown {
+  bm25: number;
+  phrase: number;
+  proximity: number;
+}
+
+export interface SearchHit {
+  docId: string;
+  chunkIndex: number;
+  score: number;
+  // Score normalised against the best score the query could reach, in [0, 1]
+  relevance: number;
+  breakdown: ScoreBreakdown;
+}
+
+interface ChunkEntry {
+  docId: string;
+  chunkIndex: number;
+  length: number;
+  language: Language;
+}
+
+type Postings = Map<string, number[]>;
+
+// The chunks of one language. Document frequencies and lengths are counted per language, as
+// each analyzer produces its own terms and a rarer language would otherwise be scored against
+// statistics dominated by the others.
+interface Partition {
+  postings: Map<string, Postings>;
+  chunkCount: number;
+  totalLength: number;
+}
+
+const chunkKey = (docId: string, chunkIndex: number) => `${docId}:${chunkIndex}`;
+
+// Inverse document frequency of a term found in `df` of `n` chunks
+const idfOf = (df: number, n: number) => Math.log(1 + (n - df + 0.5) / (df + 0.5));
+
+// Inverted index over document chunks, scored with BM25 plus phrase and proximity features.
+// Each document is indexed with the analyzer for its language, and matched against the query
+// analyzed the same way, with BM25 statistics taken from the documents of that language.
+export class InvertedIndex {
+  private readonly partitions = new Map<Language, Partition>();
+  private readonly chunks = new Map<string, ChunkEntry>();
+  private readonly chunkKeysByDoc = new Map<string, string[]>();
+  private readonly termsByDoc = new Map<string, Set<string>>();
+  private readonly languageByDoc = new Map<string, Language>();
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  addDocument(docId: string, chunks: string[], language: Language = 'und'): void {
+    this.addTokenizedDocument(docId, chunks.map(text => tokenize(text, language)), language);
+  }
+
+  // Index chunks that were already tokenized with the analyzer for `language`, e.g. incrementally by the caller
+  addTokenizedDocument(docId: string, chunks: Token[][], language: Language = 'und'): void {
+    if (this.chunkKeysByDoc.has(docId)) {
+      this.removeDocument(docId);
+    }
+
+    let partition = this.partitions.get(language);
+    if (!partition) {
+      partition = { postings: new Map(), chunkCount: 0, totalLength: 0 };
+      this.partitions.set(language, partition);
+    }
+
+    const keys: string[] = [];
+    const docTerms = new Set<string>();
+    chunks.forEach((tokens, chunkIndex) => {
+      const key = chunkKey(docId, chunkIndex);
+
+      for (const { term, position } of tokens) {
+        docTerms.add(term);
+        let termPostings = partition.postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          partition.postings.set(term, termPostings);
+        }
+        const positions = termPostings.get(key);
+        if (positions) {
+          positions.push(position);
+        } else {
+          termPostings.set(key, [position]);
+        }
+      }
+
+      this.chunks.set(key, { docId, chunkIndex, length: tokens.length, language });
+      partition.chunkCount++;
+      partition.totalLength += tokens.length;
+      keys.push(key);
+    });
+
+    this.chunkKeysByDoc.set(docId, keys);
+    this.termsByDoc.set(docId, docTerms);
+    this.languageByDoc.set(docId, language);
+  }
+
+  removeDocument(docId: string): void {
+    const keys = this.chunkKeysByDoc.get(docId);
+    const language = this.languageByDoc.get(docId);
+    const partition = language ? this.partitions.get(language) : undefined;
+    if (!keys || !language || !partition) return;
+
+    const removed = new Set(keys);
+    for (const key of keys) {
+      partition.chunkCount--;
+      partition.totalLength -= this.chunks.get(key)?.length ?? 0;
+      this.chunks.delete(key);
+    }
+
+    // Only the document's own terms can hold postings for its chunks
+    for (const term of this.termsByDoc.get(docId) ?? []) {
+      const termPostings = partition.postings.get(term);
+      if (!termPostings) continue;
+      removed.forEach(key => termPostings.delete(key));
+      if (termPostings.size === 0) {
+        partition.postings.delete(term);
+      }
+    }
+    if (partition.chunkCount === 0) {
+      this.partitions.delete(language);
+    }
+
+    this.chunkKeysByDoc.delete(docId);
+    this.termsByDoc.delete(docId);
+    this.languageByDoc.delete(docId);
+  }
+
+  clear(): void {
+    this.partitions.clear();
+    this.chunks.clear();
+    this.chunkKeysByDoc.clear();
+    this.termsByDoc.clear();
+    this.languageByDoc.clear();
+  }
+
+  search(query: string, options: Bm25Options = DEFAULT_BM25_OPTIONS): SearchHit[] {
+    const hits: SearchHit[] = [];
+    this.partitions.forEach((partition, language) => {
+      hits.push(...this.searchLanguage(tokenize(query, language), partition, options));
+    });
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  // Score the chunks of documents in one language against the query as that language's analyzer sees it
+  private searchLanguage(queryTokens: Token[], { postings, chunkCount, totalLength }: Partition, options: Bm25Options): SearchHit[] {
+    const terms = [...new Set(queryTokens.map(t => t.term))];
+    if (terms.length === 0) return [];
+
+    const idf = new Map(terms.map(term => [term, idfOf(postings.get(term)?.size ?? 0, chunkCount)]));
+    const avgLength = totalLength / chunkCount || 1;
+    const maxScore = this.maxScore(queryTokens, idf, options);
+
+    // Only chunks containing at least one query term can score
+    const candidates = new Set<string>();
+    for (const term of terms) {
+      postings.get(term)?.forEach((_, key) => candidates.add(key));
+    }
+
+    const hits: SearchHit[] = [];
+    for (const key of candidates) {
+      const entry = this.chunks.get(key)!;
+      const breakdown: ScoreBreakdown = {
+        bm25: this.bm25(postings, key, entry.length, terms, idf, avgLength, options),
+        phrase: options.phraseWeight * this.phraseScore(postings, key, queryTokens, idf),
+        proximity: options.proximityWeight * this.proximityScore(postings, key, terms)
+      };
+      const score = breakdown.bm25 + breakdown.phrase + breakdown.proximity;
+
+      hits.push({
+        docId: entry.docId,
+        chunkIndex: entry.chunkIndex,
+        score,
+        relevance: maxScore > 0 ? Math.min(score / maxScore, 1) : 0,
+        breakdown
+      });
+    }
+
+    return hits;
+  }
+
+  private bm25(
+    postings: Map<string, Postings>,
+    key: string,
+    length: number,
+    terms: string[],
+    idf: Map<string, number>,
+    avgLength: number,
+    { k1, b }: Bm25Options
+  ): number {
+    let score = 0;
+    for (const term of terms) {
+      const tf = postings.get(term)?.get(key)?.length ?? 0;
+      if (tf === 0) continue;
+      const norm = k1 * (1 - b + b * (length / avgLength));
+      score += idf.get(term)! * ((tf * (k1 + 1)) / (tf + norm));
+    }
+    return score;
+  }
+
+  // Sum of idf for consecutive query term pairs that appear at the same distance in the chunk
+  private phraseScore(postings: Map<string, Postings>, key: string, queryTokens: Token[], idf: Map<string, number>): number {
+    let score = 0;
+    for (let i = 0; i < queryTokens.length - 1; i++) {
+      const first = queryTokens[i];
+      const second = queryTokens[i + 1];
+      const gap = second.position - first.position;
+      const firstPositions = postings.get(first.term)?.get(key);
+      const secondPositions = postings.get(second.term)?.get(key);
+      if (!firstPositions || !secondPositions) continue;
+
+      const secondSet = new Set(secondPositions);
+      if (firstPositions.some(p => secondSet.has(p + gap))) {
+        score += (idf.get(first.term)! + idf.get(second.term)!) / 2;
+      }
+    }
+    return score;
+  }
+
+  // How tightly the matched query terms cluster: 1 when adjacent, tending to 0 as they spread out
+  private proximityScore(postings: Map<string, Postings>, key: string, terms: string[]): number {
+    const occurrences: { position: number; term: number }[] = [];
+    terms.forEach((term, index) => {
+      postings.get(term)?.get(key)?.forEach(position => occurrences.push({ position, term: index }));
+    });
+
+    const matched = new Set(occurrences.map(o => o.term)).size;
+    if (matched < 2) return 0;
+
+    occurrences.sort((a, b) => a.position - b.position);
+
+    // Smallest window containing every matched term (sliding window over sorted positions)
+    const counts = new Map<number, number>();
+    let covered = 0;
+    let best = Infinity;
+    let left = 0;
+    for (let right = 0; right < occurrences.length; right++) {
+      const term = occurrences[right].term;
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+      if (counts.get(term) === 1) covered++;
+
+      while (covered === matched) {
+        best = Math.min(best, occurrences[right].position - occurrences[left].position + 1);
+        const leftTerm = occurrences[left].term;
+        counts.set(leftTerm, counts.get(leftTerm)! - 1);
+        if (counts.get(leftTerm) === 0) covered--;
+        left++;
+      }
+    }
+
+    return (matched / best) * (matched / terms.length);
+  }
+
+  // Upper bound used to express scores as a percentage: every term saturated, every phrase and perfect proximity
+  private maxScore(queryTokens: Token[], idf: Map<string, number>, options: Bm25Options): number {
+    let bm25 = 0;
+    idf.forEach(value => {
+      bm25 += value * (options.k1 + 1);
+    });
+
+    let phrase = 0;
+    for (let i = 0; i < queryTokens.length - 1; i++) {
+      phrase += (idf.get(queryTokens[i].term)! + idf.get(queryTokens[i + 1].term)!) / 2;
+    }
+
+    const proximity = idf.size > 1 ? 1 : 0;
+    return bm25 + options.phraseWeight * phrase + options.proximityWeight * proximity;
+  }
+}
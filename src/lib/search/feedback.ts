@@ -0,0 +1,75 @@
+import { detectLanguage } from '../analysis/detect';
+import { Language } from '../analysis/types';
+import { HybridHit } from './hybrid';
+import { tokenize } from './tokenizer';
+
+// A user's verdict on one chunk retrieved for a past query
+export interface FeedbackJudgement {
+  query: string;
+  docId: string;
+  chunkIndex: number;
+  relevant: boolean;
+  // How much the verdict counts: 1 for an explicit mark, less for one implied by an answer rating
+  weight: number;
+}
+
+export interface ChunkBoost {
+  docId: string;
+  chunkIndex: number;
+  // Net feedback for the chunk, in [-1, 1]
+  boost: number;
+}
+
+// Past queries sharing less than this share of terms with the new query are ignored
+const MIN_QUERY_SIMILARITY = 0.3;
+
+const termSet = (text: string, language: Language) => new Set(tokenize(text, language).map(t => t.term));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// Turn feedback on similar past queries into per-chunk boosts for a new query
+export const feedbackBoosts = (query: string, judgements: FeedbackJudgement[]): ChunkBoost[] => {
+  // Past queries are read in the new query's language, so their terms are comparable
+  const { language } = detectLanguage(query);
+  const queryTerms = termSet(query, language);
+  const boosts = new Map<string, ChunkBoost>();
+
+  for (const judgement of judgements) {
+    const similarity = jaccard(queryTerms, termSet(judgement.query, language));
+    if (similarity < MIN_QUERY_SIMILARITY) continue;
+
+    const key = `${judgement.docId}:${judgement.chunkIndex}`;
+    const entry = boosts.get(key) ?? { docId: judgement.docId, chunkIndex: judgement.chunkIndex, boost: 0 };
+    entry.boost += similarity * judgement.weight * (judgement.relevant ? 1 : -1);
+    boosts.set(key, entry);
+  }
+
+  return [...boosts.values()].map(entry => ({ ...entry, boost: Math.max(-1, Math.min(1, entry.boost)) }));
+};
+
+// Nudge fused hits up or down by their feedback boost and re-rank them
+export const applyFeedback = (hits: HybridHit[], boosts: ChunkBoost[], weight: number): HybridHit[] => {
+  if (boosts.length === 0 || weight === 0) return hits;
+  const byChunk = new Map(boosts.map(b => [`${b.docId}:${b.chunkIndex}`, b.boost]));
+
+  return hits
+    .map(hit => {
+      const boost = byChunk.get(`${hit.docId}:${hit.chunkIndex}`);
+      if (boost === undefined) return hit;
+      const feedback = weight * boost;
+      return {
+        ...hit,
+        score: hit.score * (1 + feedback),
+        relevance: Math.max(0, Math.min(1, hit.relevance + feedback)),
+        breakdown: { ...hit.breakdown, feedback }
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,67 @@
+// Literal, case-insensitive text search used by the document browser (not by retrieval)
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+interface SearchableDocument {
+  id: string;
+  title: string;
+  content: string;
+  chunks: { start: number; end: number; ordinal: number }[];
+}
+
+export interface ChunkHit {
+  docId: string;
+  title: string;
+  chunkIndex: number;
+  // Range of the chunk in the document content
+  start: number;
+  end: number;
+  // Matches inside the chunk, in document offsets
+  matches: TextMatch[];
+}
+
+export const MIN_FIND_LENGTH = 2;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every occurrence of the query in the text, up to `limit`
+export const findMatches = (text: string, query: string, limit = 1000): TextMatch[] => {
+  const needle = query.trim();
+  if (needle.length < MIN_FIND_LENGTH) return [];
+
+  const matches: TextMatch[] = [];
+  for (const match of text.matchAll(new RegExp(escapeRegExp(needle), 'gi'))) {
+    matches.push({ start: match.index!, end: match.index! + match[0].length });
+    if (matches.length >= limit) break;
+  }
+  return matches;
+};
+
+// Matches across documents grouped by the chunk they fall in. A match in the overlap
+// between two chunks is counted once, for the earlier chunk.
+export const findInDocuments = (documents: SearchableDocument[], query: string, limit = 200): ChunkHit[] => {
+  const hits: ChunkHit[] = [];
+
+  for (const doc of documents) {
+    const byChunk = new Map<number, ChunkHit>();
+    for (const match of findMatches(doc.content, query)) {
+      const chunk = doc.chunks.find(c => match.start >= c.start && match.end <= c.end) ??
+        doc.chunks.find(c => match.start >= c.start && match.start < c.end);
+      if (!chunk) continue;
+
+      let hit = byChunk.get(chunk.ordinal);
+      if (!hit) {
+        hit = { docId: doc.id, title: doc.title, chunkIndex: chunk.ordinal, start: chunk.start, end: chunk.end, matches: [] };
+        byChunk.set(chunk.ordinal, hit);
+        hits.push(hit);
+        if (hits.length >= limit) return hits;
+      }
+      hit.matches.push(match);
+    }
+  }
+
+  return hits;
+};
@@ -0,0 +1,108 @@
+import { cosineSimilarity } from '../embeddings/vector';
+import { Bm25Options, DEFAULT_BM25_OPTIONS, ScoreBreakdown, SearchHit } from './bm25';
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface RetrievalSettings extends Bm25Options {
+  // Number of passages handed to the model
+  topK: number;
+  // Passages at or below this relevance are never used
+  minRelevance: number;
+  fusion: FusionMethod;
+  // Share of the dense (embedding) signal in the blended relevance, 0 = lexical only
+  denseWeight: number;
+  rrfK: number;
+  // How strongly relevance feedback on similar past queries moves a chunk, 0 = ignore feedback
+  feedbackWeight: number;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  ...DEFAULT_BM25_OPTIONS,
+  topK: 3,
+  minRelevance: 0.1,
+  fusion: 'rrf',
+  denseWeight: 0.5,
+  rrfK: 60,
+  feedbackWeight: 0.3
+};
+
+export interface DenseHit {
+  docId: string;
+  chunkIndex: number;
+  similarity: number;
+}
+
+export interface HybridHit {
+  docId: string;
+  chunkIndex: number;
+  // Ranking score of the chosen fusion method
+  score: number;
+  // Weighted blend of lexical relevance and cosine similarity, in [0, 1]
+  relevance: number;
+  breakdown: ScoreBreakdown & { dense: number; feedback?: number };
+}
+
+export interface EmbeddedDocument {
+  id: string;
+  embeddings: number[][];
+}
+
+// Rank every embedded chunk by cosine similarity to the query vector
+export const denseSearch = (queryVector: number[], documents: EmbeddedDocument[]): DenseHit[] => {
+  const hits: DenseHit[] = [];
+  for (const doc of documents) {
+    doc.embeddings.forEach((vector, chunkIndex) => {
+      hits.push({ docId: doc.id, chunkIndex, similarity: cosineSimilarity(queryVector, vector) });
+    });
+  }
+  return hits.sort((a, b) => b.similarity - a.similarity);
+};
+
+// Combine lexical and dense rankings with reciprocal rank fusion or a weighted score blend
+export const fuseHits = (lexical: SearchHit[], dense: DenseHit[], settings: RetrievalSettings): HybridHit[] => {
+  const key = (docId: string, chunkIndex: number) => `${docId}:${chunkIndex}`;
+  const fused = new Map<string, HybridHit & { lexicalRank?: number; denseRank?: number; lexicalRelevance: number }>();
+
+  const entry = (docId: string, chunkIndex: number) => {
+    const k = key(docId, chunkIndex);
+    let hit = fused.get(k);
+    if (!hit) {
+      hit = {
+        docId,
+        chunkIndex,
+        score: 0,
+        relevance: 0,
+        lexicalRelevance: 0,
+        breakdown: { bm25: 0, phrase: 0, proximity: 0, dense: 0 }
+      };
+      fused.set(k, hit);
+    }
+    return hit;
+  };
+
+  lexical.forEach((hit, rank) => {
+    const fusedHit = entry(hit.docId, hit.chunkIndex);
+    fusedHit.lexicalRank = rank;
+    fusedHit.lexicalRelevance = hit.relevance;
+    fusedHit.breakdown = { ...hit.breakdown, dense: fusedHit.breakdown.dense };
+  });
+
+  dense.forEach((hit, rank) => {
+    const fusedHit = entry(hit.docId, hit.chunkIndex);
+    fusedHit.denseRank = rank;
+    fusedHit.breakdown.dense = Math.max(hit.similarity, 0);
+  });
+
+  const weight = dense.length > 0 ? settings.denseWeight : 0;
+
+  return [...fused.values()]
+    .map(({ lexicalRank, denseRank, lexicalRelevance, ...hit }) => {
+      const relevance = (1 - weight) * lexicalRelevance + weight * hit.breakdown.dense;
+      const score = settings.fusion === 'rrf'
+        ? (1 - weight) * (lexicalRank !== undefined ? 1 / (settings.rrfK + lexicalRank + 1) : 0) +
+          weight * (denseRank !== undefined ? 1 / (settings.rrfK + denseRank + 1) : 0)
+        : relevance;
+      return { ...hit, score, relevance };
+    })
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,6 @@
+export * from './bm25';
+export * from './tokenizer';
+export * from './hybrid';
+export * from './scope';
+export * from './feedback';
+export * from './find';
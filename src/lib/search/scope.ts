@@ -0,0 +1,27 @@
+// Which part of the knowledge base a question may draw on. A document is in scope when it
+// belongs to one of the collections, carries one of the tags or is listed explicitly.
+export interface RetrievalScope {
+  collections?: string[];
+  tags?: string[];
+  documentIds?: string[];
+}
+
+interface ScopedDocument {
+  id: string;
+  collection?: string;
+  tags: string[];
+}
+
+// No facet given at all, which means the whole knowledge base. A facet given as an empty list is
+// different: it is what is left of a scope whose documents were deleted, and matches nothing.
+export const isScopeEmpty = (scope?: RetrievalScope): boolean =>
+  !scope || (scope.collections === undefined && scope.tags === undefined && scope.documentIds === undefined);
+
+export const isInScope = (doc: ScopedDocument, scope?: RetrievalScope): boolean => {
+  if (isScopeEmpty(scope)) return true;
+  return (
+    (doc.collection !== undefined && scope!.collections?.includes(doc.collection) === true) ||
+    doc.tags.some(tag => scope!.tags?.includes(tag)) ||
+    scope!.documentIds?.includes(doc.id) === true
+  );
+};
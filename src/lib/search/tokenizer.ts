@@ -0,0 +1,7 @@
+import { getAnalyzer, Language, Token } from '../analysis';
+
+export type { Token } from '../analysis';
+
+// Index terms for text in the given language, with their position in the original word sequence
+export const tokenize = (text: string, language: Language = 'und'): Token[] =>
+  getAnalyzer(language).analyze(text);
@@ -0,0 +1,3 @@
+export { RagStore } from './ragStore';
+export { diffRecords } from './indexedDb';
+export { DB_NAME, DB_VERSION } from './schema';
@@ -0,0 +1,41 @@
+// Thin promise wrappers around the IndexedDB request/transaction callbacks
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// Rewrite every record of a store in place; used by data migrations during an upgrade
+export const migrateRecords = <T>(
+  tx: IDBTransaction,
+  storeName: string,
+  migrate: (record: T) => T
+): void => {
+  const request = tx.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(migrate(cursor.value as T));
+    cursor.continue();
+  };
+};
+
+// Records to write and ids to delete to bring a store from `previous` to `next`.
+// State is updated immutably, so a record whose reference is unchanged is already persisted.
+export const diffRecords = <T extends { id: string }>(previous: T[], next: T[]) => {
+  const previousRecords = new Set(previous);
+  const nextIds = new Set(next.map(r => r.id));
+
+  return {
+    put: next.filter(r => !previousRecords.has(r)),
+    remove: previous.filter(r => !nextIds.has(r.id)).map(r => r.id)
+  };
+};
@@ -0,0 +1,80 @@
+import { ChatMessage, Conversation, Document } from '../../types';
+import { requestToPromise, transactionDone } from './indexedDb';
+import { DB_NAME, DB_VERSION, MIGRATIONS, STORES } from './schema';
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+
+// Persistent storage for the knowledge base and chat history.
+// Records are stored as structured clones, so Date fields and nested sources survive as-is.
+// The inverted index is not stored: it is rebuilt from the persisted chunks on load.
+export class RagStore {
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static async open(): Promise<RagStore> {
+    return new RagStore(await openDatabase());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  async loadDocuments(): Promise<Document[]> {
+    const documents = await this.getAll<Document>(STORES.documents);
+    return documents.sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+  }
+
+  async loadMessages(): Promise<ChatMessage[]> {
+    const messages = await this.getAll<ChatMessage>(STORES.messages);
+    return messages
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      // A reload interrupts any answer that was still streaming
+      .map(m => (m.isStreaming ? { ...m, isStreaming: false, stopped: true } : m));
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    return this.getAll<Conversation>(STORES.conversations);
+  }
+
+  saveDocuments(put: Document[], remove: string[] = []): Promise<void> {
+    return this.write(STORES.documents, put, remove);
+  }
+
+  saveMessages(put: ChatMessage[], remove: string[] = []): Promise<void> {
+    return this.write(STORES.messages, put, remove);
+  }
+
+  saveConversations(put: Conversation[], remove: string[] = []): Promise<void> {
+    return this.write(STORES.conversations, put, remove);
+  }
+
+  private async getAll<T>(storeName: StoreName): Promise<T[]> {
+    const tx = this.db.transaction(storeName, 'readonly');
+    return requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+  }
+
+  private async write<T>(storeName: StoreName, put: T[], remove: string[]): Promise<void> {
+    if (put.length === 0 && remove.length === 0) return;
+
+    const tx = this.db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    put.forEach(record => store.put(record));
+    remove.forEach(id => store.delete(id));
+    return transactionDone(tx);
+  }
+}
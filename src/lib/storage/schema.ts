@@ -0,0 +1,96 @@
+import { migrateRecords } from './indexedDb';
+import { chunkDocument, DEFAULT_CHUNKING_OPTIONS } from '../chunking';
+import { PageSpan } from '../extraction/types';
+
+export const DB_NAME = 'rag-chatbot';
+
+export const STORES = {
+  documents: 'documents',
+  messages: 'messages',
+  conversations: 'conversations'
+} as const;
+
+// Conversation that messages saved before version 2 are moved into
+export const LEGACY_CONVERSATION_ID = 'legacy';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Each entry upgrades the database from the previous version to its key.
+// Never edit a released migration: add a new version instead so existing stores upgrade step by step.
+export const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORES.documents, { keyPath: 'id' });
+    const messages = db.createObjectStore(STORES.messages, { keyPath: 'id' });
+    messages.createIndex('timestamp', 'timestamp');
+  },
+  2: (db, tx) => {
+    db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+    const messages = tx.objectStore(STORES.messages);
+    messages.createIndex('conversationId', 'conversationId');
+
+    // Move the single pre-existing chat into a conversation of its own
+    const count = messages.count();
+    count.onsuccess = () => {
+      if (count.result === 0) return;
+      const now = new Date();
+      tx.objectStore(STORES.conversations).put({
+        id: LEGACY_CONVERSATION_ID,
+        title: 'Previous chat',
+        createdAt: now,
+        updatedAt: now
+      });
+      migrateRecords<{ conversationId?: string }>(tx, STORES.messages, message => ({
+        ...message,
+        conversationId: LEGACY_CONVERSATION_ID
+      }));
+    };
+  },
+  3: (_db, tx) => {
+    // Chunks became objects with offsets and metadata; the old string chunks had lost their
+    // punctuation, so re-chunk from the content and drop vectors computed for the old chunks
+    migrateRecords<{ content: string; pages?: PageSpan[]; chunks: unknown; embeddings?: unknown; embeddingModel?: string }>(
+      tx,
+      STORES.documents,
+      doc => ({
+        ...doc,
+        chunks: chunkDocument(doc.content, DEFAULT_CHUNKING_OPTIONS, doc.pages),
+        chunking: DEFAULT_CHUNKING_OPTIONS,
+        embeddings: undefined,
+        embeddingModel: undefined
+      })
+    );
+  },
+  4: (_db, tx) => {
+    // Sources gained citation numbers and chunk locations; older ones can no longer be located
+    migrateRecords<{ sources?: object[] }>(tx, STORES.messages, message => ({
+      ...message,
+      sources: message.sources?.map((source, index) => ({
+        docId: '',
+        chunkIndex: -1,
+        start: 0,
+        end: 0,
+        ...source,
+        id: index + 1
+      }))
+    }));
+  },
+  5: (_db, tx) => {
+    // Documents gained tags and collections; conversation scopes grew beyond a document list
+    migrateRecords<{ tags?: string[] }>(tx, STORES.documents, doc => ({ ...doc, tags: doc.tags ?? [] }));
+    migrateRecords<{ documentIds?: string[]; scope?: object }>(tx, STORES.conversations, ({ documentIds, ...conversation }) => ({
+      ...conversation,
+      scope: documentIds?.length ? { documentIds } : undefined
+    }));
+  },
+  6: (_db, tx) => {
+    // Version history; content hashes need async crypto, so they are backfilled after load
+    migrateRecords<object>(tx, STORES.documents, doc => ({
+      contentHash: '',
+      version: 1,
+      versions: [],
+      ...doc
+    }));
+  }
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
@@ -0,0 +1,75 @@
+import { ChatMessage, Conversation, Source } from '../../types';
+import { formatRowRange } from '../chunking';
+import { ExportedFile } from './types';
+
+export type ConversationExportFormat = 'markdown' | 'json';
+
+const CONVERSATION_FORMAT = 'rag-chatbot/conversation';
+const CONVERSATION_VERSION = 1;
+
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+
+const formatRelevance = (relevance: number) => `${Math.round(relevance * 100)}%`;
+
+// Quote a passage as a Markdown blockquote, line by line
+const quote = (text: string) => text.trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+
+const sourceLine = (source: Source) => {
+  const location = [
+    source.version !== undefined ? `v${source.version}` : '',
+    source.page !== undefined ? `page ${source.page}` : '',
+    source.rows ? formatRowRange(source.rows) : '',
+    source.headingPath?.join(' › ') ?? ''
+  ].filter(Boolean).join(', ');
+  return `${source.id}. **${source.title}**${location ? ` (${location})` : ''} — relevance ${formatRelevance(source.relevance)}`;
+};
+
+const toMarkdown = (conversation: Conversation, messages: ChatMessage[]): string => {
+  const lines = [`# ${conversation.title}`, '', `_Exported ${new Date().toLocaleString()}_`];
+
+  for (const message of messages) {
+    lines.push('', `## ${message.sender === 'user' ? 'You' : 'Assistant'} · ${message.timestamp.toLocaleString()}`, '');
+    if (message.searchQuery) {
+      lines.push(`_Searched for: ${message.searchQuery}_`, '');
+    }
+    lines.push(message.content || '_(no response)_');
+    if (message.stopped) {
+      lines.push('', '_Generation stopped._');
+    }
+    if (message.sources?.length) {
+      lines.push('', '**Sources**', '');
+      message.sources.forEach(source => lines.push(sourceLine(source), '', quote(source.content), ''));
+      lines.pop();
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const toJson = (conversation: Conversation, messages: ChatMessage[]): string => JSON.stringify({
+  format: CONVERSATION_FORMAT,
+  version: CONVERSATION_VERSION,
+  exportedAt: new Date().toISOString(),
+  conversation,
+  messages: messages.map(({ id, content, sender, timestamp, sources, searchQuery, stopped }) => ({
+    id,
+    sender,
+    content,
+    timestamp,
+    searchQuery,
+    stopped,
+    sources
+  }))
+}, null, 2);
+
+export const createConversationExport = (
+  conversation: Conversation,
+  messages: ChatMessage[],
+  format: ConversationExportFormat
+): ExportedFile => {
+  const slug = fileSlug(conversation.title);
+  return format === 'markdown'
+    ? { fileName: `${slug}.md`, mimeType: 'text/markdown', content: toMarkdown(conversation, messages) }
+    : { fileName: `${slug}.json`, mimeType: 'application/json', content: toJson(conversation, messages) };
+};
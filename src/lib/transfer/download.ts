@@ -0,0 +1,12 @@
+import { ExportedFile } from './types';
+
+// Hand a generated file to the browser as a download
+export const downloadFile = ({ fileName, mimeType, content }: ExportedFile): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
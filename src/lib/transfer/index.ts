@@ -0,0 +1,4 @@
+export * from './types';
+export * from './knowledgeBase';
+export * from './conversation';
+export { downloadFile } from './download';
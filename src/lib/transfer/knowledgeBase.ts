@@ -0,0 +1,90 @@
+import { Document } from '../../types';
+import { hashContent } from '../versioning';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, BundleError, BundleSettings, ExportedFile, KnowledgeBaseBundle } from './types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toDate = (value: unknown, field: string): Date => {
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+    throw new BundleError(`Invalid date in "${field}".`);
+  }
+  return date;
+};
+
+const isChunk = (value: unknown) =>
+  isObject(value) && typeof value.text === 'string' && Number.isFinite(value.start) && Number.isFinite(value.end);
+
+// JSON turns dates into strings; bring them back and check the fields the app relies on.
+// A missing content hash is computed again, as imports tell documents apart by it.
+const reviveDocument = async (value: unknown, position: number): Promise<Document> => {
+  const doc = value as Document;
+  if (
+    !isObject(value) ||
+    typeof doc.id !== 'string' ||
+    typeof doc.title !== 'string' ||
+    typeof doc.content !== 'string' ||
+    !Array.isArray(doc.chunks) ||
+    !doc.chunks.every(isChunk) ||
+    !isObject(doc.chunking) ||
+    (doc.contentHash !== undefined && typeof doc.contentHash !== 'string') ||
+    (doc.version !== undefined && !(Number.isInteger(doc.version) && doc.version >= 1))
+  ) {
+    throw new BundleError(`Document ${position + 1} in the bundle is malformed.`);
+  }
+
+  return {
+    ...doc,
+    contentHash: doc.contentHash ?? await hashContent(doc.content),
+    version: doc.version ?? 1,
+    tags: Array.isArray(doc.tags) ? doc.tags : [],
+    versions: (Array.isArray(doc.versions) ? doc.versions : []).map(version => ({
+      ...version,
+      uploadedAt: toDate(version.uploadedAt, `${doc.title} v${version.version}`)
+    })),
+    uploadedAt: toDate(doc.uploadedAt, doc.title)
+  };
+};
+
+export const createKnowledgeBaseExport = (documents: Document[], settings: BundleSettings): ExportedFile => {
+  const bundle: KnowledgeBaseBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    documents
+  };
+  const date = bundle.exportedAt.slice(0, 10);
+
+  return {
+    fileName: `knowledge-base-${date}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(bundle)
+  };
+};
+
+export const parseKnowledgeBaseBundle = async (text: string): Promise<KnowledgeBaseBundle> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError('This file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new BundleError('This file is not a knowledge base export.');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new BundleError(`This export was made by a newer version of the app (bundle v${data.version}).`);
+  }
+  if (!Array.isArray(data.documents) || !isObject(data.settings)) {
+    throw new BundleError('This knowledge base export is incomplete.');
+  }
+
+  const bundle = data as unknown as KnowledgeBaseBundle;
+  return {
+    ...bundle,
+    documents: await Promise.all(data.documents.map(reviveDocument))
+  };
+};
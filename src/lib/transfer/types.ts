@@ -0,0 +1,43 @@
+import { Document } from '../../types';
+import { EmbeddingSettings } from '../embeddings/types';
+import { RetrievalSettings } from '../search/hybrid';
+
+// A file produced by an export, ready to be downloaded
+export interface ExportedFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+// Settings that shape the index; embedding API keys are never exported
+export interface BundleSettings {
+  retrieval: RetrievalSettings;
+  embedding: Omit<EmbeddingSettings, 'apiKey'>;
+}
+
+export interface KnowledgeBaseBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: BundleSettings;
+  documents: Document[];
+}
+
+// 'merge' keeps the current knowledge base and adds what is new; 'replace' swaps it out entirely
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  added: number;
+  // Documents left out because the knowledge base already holds them
+  skipped: number;
+}
+
+export const BUNDLE_FORMAT = 'rag-chatbot/knowledge-base';
+export const BUNDLE_VERSION = 1;
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
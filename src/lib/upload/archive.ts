@@ -0,0 +1,54 @@
+import { isIgnoredPath } from './collect';
+import { ArchiveError, UploadEntry } from './types';
+
+// Archives that are not really document collections, or that unpack to far more than they weigh
+const MAX_ARCHIVE_ENTRIES = 2000;
+const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+// JSZip keeps the sizes from the archive's directory on a private field its typings leave out
+interface EntrySizes {
+  _data?: { uncompressedSize?: number };
+}
+
+const tooLarge = () =>
+  new ArchiveError(`This archive unpacks to more than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB; upload its files in smaller batches.`);
+
+export const isArchive = (path: string) => path.toLowerCase().endsWith('.zip');
+
+// Unpack a .zip into entries whose paths start with the archive's name, as if it were a folder.
+// JSZip is loaded on demand, like the DOCX parser.
+export const expandArchive = async ({ file, path }: UploadEntry): Promise<UploadEntry[]> => {
+  const { default: JSZip } = await import('jszip');
+  let zip: InstanceType<typeof JSZip>;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new ArchiveError('This archive could not be read. It may be corrupt or not a .zip file.');
+  }
+
+  const files = Object.values(zip.files).filter(entry => !entry.dir && !isIgnoredPath(entry.name));
+  if (files.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ArchiveError(`This archive holds ${files.length} files; at most ${MAX_ARCHIVE_ENTRIES} can be uploaded at once.`);
+  }
+  const declared = files.reduce((total, entry) => total + ((entry as EntrySizes)._data?.uncompressedSize ?? 0), 0);
+  if (declared > MAX_ARCHIVE_BYTES) throw tooLarge();
+
+  // One entry at a time, counting what is really inflated: the declared sizes can lie, though
+  // JSZip rejects an entry whose data does not match its own
+  const root = path.replace(/\.zip$/i, '');
+  const entries: UploadEntry[] = [];
+  let unpacked = 0;
+  for (const entry of files) {
+    let data: ArrayBuffer;
+    try {
+      data = await entry.async('arraybuffer');
+    } catch {
+      throw new ArchiveError(`"${entry.name}" in this archive could not be unpacked. The archive may be corrupt.`);
+    }
+    unpacked += data.byteLength;
+    if (unpacked > MAX_ARCHIVE_BYTES) throw tooLarge();
+    const name = entry.name.split('/').pop()!;
+    entries.push({ file: new File([data], name, { lastModified: entry.date.getTime() }), path: `${root}/${entry.name}` });
+  }
+  return entries;
+};
@@ -0,0 +1,55 @@
+import { UploadEntry } from './types';
+
+// System files that come along with folders and archives made on macOS and Windows
+const IGNORED_NAMES = new Set(['__MACOSX', 'Thumbs.db', 'desktop.ini']);
+
+export const isIgnoredPath = (path: string) =>
+  path.split('/').some(segment => segment.startsWith('.') || IGNORED_NAMES.has(segment));
+
+// Files from an <input>; a directory input fills in each file's path within the folder
+export const entriesFromFiles = (files: Iterable<File>): UploadEntry[] =>
+  [...files]
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .filter(entry => !isIgnoredPath(entry.path));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// A directory reader hands out entries in batches until it returns an empty one
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walk = async (entry: FileSystemEntry): Promise<UploadEntry[]> => {
+  const path = entry.fullPath.replace(/^\//, '');
+  if (isIgnoredPath(path)) return [];
+  if (entry.isFile) {
+    return [{ file: await readFile(entry as FileSystemFileEntry), path }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(walk))).flat();
+  }
+  return [];
+};
+
+// Files and whole folders dropped onto the page. The items have to be read before the first await,
+// as the browser empties the DataTransfer once the drop handler returns.
+export const entriesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<UploadEntry[]> => {
+  const roots = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  if (roots.length === 0 || roots.some(root => root === null)) {
+    return entriesFromFiles(Array.from(dataTransfer.files));
+  }
+  return (await Promise.all((roots as FileSystemEntry[]).map(walk))).flat();
+};
+
+// Title a document after its path, so files with the same name in different folders stay apart
+export const titleForPath = (path: string) => path.replace(/\.[^/.]+$/, '');
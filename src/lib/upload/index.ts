@@ -0,0 +1,3 @@
+export * from './types';
+export { entriesFromDataTransfer, entriesFromFiles, isIgnoredPath, titleForPath } from './collect';
+export { expandArchive, isArchive } from './archive';
@@ -0,0 +1,33 @@
+import { FindingGroup } from '../redaction/types';
+
+// A file picked, dropped or unpacked for upload, with its path inside the folder or archive it came from
+export interface UploadEntry {
+  file: File;
+  // "handbook/hr/leave.md" for nested files; just the file name for files picked on their own
+  path: string;
+}
+
+// What to do with a file whose path (or title) is already in the knowledge base
+export type ExistingFileRule = 'skip' | 'overwrite';
+
+// 'review' files hold sensitive data and wait for the user to choose what to do with it
+export type UploadStatus = 'queued' | 'extracting' | 'review' | 'indexing' | 'indexed' | 'skipped' | 'failed';
+
+export interface QueuedUpload {
+  id: string;
+  path: string;
+  status: UploadStatus;
+  // Why the file was skipped or failed, or what was done with sensitive data in it
+  reason?: string;
+  // Sensitive data found in a file waiting for review
+  findings?: FindingGroup[];
+  // Document the file was added to or updated
+  documentId?: string;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
@@ -0,0 +1,65 @@
+export interface DiffStats {
+  linesAdded: number;
+  linesRemoved: number;
+  linesUnchanged: number;
+}
+
+// Above this many line pairs the exact LCS table gets too large for the browser
+const MAX_LCS_CELLS = 4_000_000;
+
+// Line-level diff statistics between two versions of a document
+export const diffStats = (previous: string, next: string): DiffStats => {
+  const a = previous.split('\n');
+  const b = next.split('\n');
+
+  // Common prefix and suffix are unchanged and need no table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const common = middleA.length * middleB.length <= MAX_LCS_CELLS
+    ? longestCommonSubsequence(middleA, middleB)
+    : sharedLineCount(middleA, middleB);
+
+  return {
+    linesAdded: middleB.length - common,
+    linesRemoved: middleA.length - common,
+    linesUnchanged: prefix + suffix + common
+  };
+};
+
+const longestCommonSubsequence = (a: string[], b: string[]): number => {
+  let previousRow = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? previousRow[j - 1] + 1 : Math.max(previousRow[j], row[j - 1]);
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+};
+
+// Order-insensitive approximation for very large documents
+const sharedLineCount = (a: string[], b: string[]): number => {
+  const counts = new Map<string, number>();
+  a.forEach(line => counts.set(line, (counts.get(line) ?? 0) + 1));
+  let shared = 0;
+  for (const line of b) {
+    const count = counts.get(line) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(line, count - 1);
+    }
+  }
+  return shared;
+};
@@ -0,0 +1,87 @@
+import { createId } from '../ids';
+import {
+  CancelledError,
+  IngestionStage,
+  WorkerMessage,
+  WorkerPayload,
+  WorkerRequest,
+  WorkerRequestType,
+  WorkerResponse,
+  WorkerResult
+} from './protocol';
+
+export type ProgressListener = (stage: IngestionStage, progress: number) => void;
+
+export interface WorkerRequestHandle<T> {
+  id: string;
+  result: Promise<T>;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressListener;
+}
+
+// Promise-based front end for the RAG worker: one pending entry per request id
+export class RagWorkerClient {
+  private readonly pending = new Map<string, PendingRequest>();
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data);
+    worker.onerror = (event) => this.rejectAll(new Error(event.message || 'The RAG worker crashed'));
+  }
+
+  request<K extends WorkerRequestType>(
+    type: K,
+    payload: WorkerPayload<K>,
+    onProgress?: ProgressListener
+  ): WorkerRequestHandle<WorkerResult<K>> {
+    const id = createId();
+    const result = new Promise<WorkerResult<K>>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+    });
+    this.post({ id, type, payload } as WorkerRequest);
+    return { id, result };
+  }
+
+  // Ask the worker to stop a request; it rejects with a CancelledError at its next checkpoint
+  cancel(id: string): void {
+    if (this.pending.has(id)) {
+      this.post({ type: 'cancel', id });
+    }
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.rejectAll(new CancelledError('The RAG worker was stopped'));
+  }
+
+  private post(message: WorkerMessage): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.stage, response.progress);
+        break;
+      case 'result':
+        this.pending.delete(response.id);
+        pending.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.id);
+        pending.reject(response.cancelled ? new CancelledError(response.message) : new Error(response.message));
+        break;
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,7 @@
+import { RagWorkerClient } from './client';
+
+export * from './protocol';
+export * from './client';
+
+export const createRagWorker = (): RagWorkerClient =>
+  new RagWorkerClient(new Worker(new URL('./rag.worker.ts', import.meta.url), { type: 'module' }));
@@ -0,0 +1,73 @@
+import { Language } from '../analysis/types';
+import { Chunk, ChunkingOptions } from '../chunking/types';
+import { EmbeddingSettings } from '../embeddings/types';
+import { ExtractedDocument, PageSpan } from '../extraction/types';
+import { HybridHit } from '../search/hybrid';
+import { EmbeddingResult, RetrievalInspection, RetrievalQuery } from '../retrieval/retriever';
+
+// Messages exchanged between the UI thread and the RAG worker. Every request carries an id;
+// the worker answers with any number of progress messages followed by one result or error.
+
+export type IngestionStage = 'extracting' | 'chunking' | 'indexing' | 'embedding';
+
+export interface IngestRequest {
+  docId: string;
+  content: string;
+  chunking: ChunkingOptions;
+  pages?: PageSpan[];
+  language: Language;
+}
+
+export interface EmbedRequest {
+  docId: string;
+  texts: string[];
+}
+
+// A document restored from storage, indexed in one go on startup
+export interface IndexedDocument {
+  docId: string;
+  texts: string[];
+  // Detected again from the texts when missing, as for documents stored before languages were recorded
+  language?: Language;
+  embeddings?: number[][];
+  embeddingModel?: string;
+}
+
+export interface WorkerRequests {
+  configure: { payload: EmbeddingSettings; result: void };
+  extract: { payload: File; result: ExtractedDocument };
+  ingest: { payload: IngestRequest; result: Chunk[] };
+  embed: { payload: EmbedRequest; result: EmbeddingResult };
+  load: { payload: IndexedDocument[]; result: void };
+  remove: { payload: string; result: void };
+  // Scope filtering happens on the UI thread, which passes the documents in scope
+  search: { payload: RetrievalQuery; result: HybridHit[] };
+  inspect: { payload: { query: RetrievalQuery; maxCandidates: number }; result: RetrievalInspection };
+}
+
+export type WorkerRequestType = keyof WorkerRequests;
+export type WorkerPayload<K extends WorkerRequestType> = WorkerRequests[K]['payload'];
+export type WorkerResult<K extends WorkerRequestType> = WorkerRequests[K]['result'];
+
+export type WorkerRequest = {
+  [K in WorkerRequestType]: { id: string; type: K; payload: WorkerPayload<K> };
+}[WorkerRequestType];
+
+export interface CancelMessage {
+  type: 'cancel';
+  id: string;
+}
+
+export type WorkerMessage = WorkerRequest | CancelMessage;
+
+export type WorkerResponse =
+  | { id: string; type: 'progress'; stage: IngestionStage; progress: number }
+  | { id: string; type: 'result'; result: unknown }
+  | { id: string; type: 'error'; message: string; cancelled: boolean };
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
@@ -0,0 +1,127 @@
+import { Chunk, iterateChunks } from '../chunking';
+import { createEmbeddingProvider, DEFAULT_EMBEDDING_SETTINGS } from '../embeddings';
+import { extractFile } from '../extraction';
+import { Retriever } from '../retrieval';
+import { Token, tokenize } from '../search';
+import {
+  CancelledError,
+  IngestionStage,
+  WorkerMessage,
+  WorkerPayload,
+  WorkerRequestType,
+  WorkerResponse,
+  WorkerResult
+} from './protocol';
+
+// Ingestion and retrieval run here so large uploads never block the UI thread
+
+interface WorkerScope {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Work this long between yields so cancel messages are picked up promptly
+const YIELD_INTERVAL_MS = 50;
+
+const retriever = new Retriever(createEmbeddingProvider(DEFAULT_EMBEDDING_SETTINGS));
+const cancelled = new Set<string>();
+
+type Report = (stage: IngestionStage, progress: number) => Promise<void>;
+
+// Post progress when the percentage changes, yield to the message loop now and then,
+// and abort once the request has been cancelled
+const createReporter = (id: string): Report => {
+  let lastYield = performance.now();
+  let lastStage: IngestionStage | null = null;
+  let lastPercent = -1;
+
+  return async (stage, progress) => {
+    const percent = Math.floor(progress * 100);
+    if (stage !== lastStage || percent !== lastPercent) {
+      lastStage = stage;
+      lastPercent = percent;
+      scope.postMessage({ id, type: 'progress', stage, progress });
+    }
+    if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      lastYield = performance.now();
+    }
+    if (cancelled.has(id)) throw new CancelledError();
+  };
+};
+
+const handlers: { [K in WorkerRequestType]: (payload: WorkerPayload<K>, report: Report) => Promise<WorkerResult<K>> } = {
+  configure: async settings => {
+    retriever.setEmbeddingProvider(createEmbeddingProvider(settings));
+  },
+
+  extract: (file, report) => extractFile(file, progress => report('extracting', progress)),
+
+  ingest: async ({ docId, content, chunking, pages, language }, report) => {
+    const chunks: Chunk[] = [];
+    for (const chunk of iterateChunks(content, chunking, pages)) {
+      chunks.push(chunk);
+      await report('chunking', content.length > 0 ? chunk.end / content.length : 1);
+    }
+
+    const tokenized: Token[][] = [];
+    for (const chunk of chunks) {
+      tokenized.push(tokenize(chunk.text, language));
+      await report('indexing', tokenized.length / chunks.length);
+    }
+
+    // Swap the document in only once it is complete, so cancelling an update keeps the previous version searchable
+    retriever.addTokenizedDocument(docId, tokenized, language);
+    return chunks;
+  },
+
+  embed: async ({ docId, texts }, report) => {
+    const generation = retriever.generation(docId);
+    const result = await retriever.embed(texts, progress => report('embedding', progress));
+    retriever.setEmbeddings(docId, result, generation);
+    return result;
+  },
+
+  load: async documents => {
+    for (const doc of documents) {
+      retriever.addDocument(doc.docId, doc.texts, doc.language);
+      if (doc.embeddings && doc.embeddingModel) {
+        retriever.setEmbeddings(doc.docId, { embeddings: doc.embeddings, model: doc.embeddingModel });
+      }
+    }
+  },
+
+  remove: async docId => {
+    retriever.removeDocument(docId);
+  },
+
+  search: async query => retriever.search(query),
+
+  inspect: async ({ query, maxCandidates }) => retriever.inspect(query, maxCandidates)
+};
+
+const run = <K extends WorkerRequestType>(type: K, payload: WorkerPayload<K>, report: Report) =>
+  handlers[type](payload, report);
+
+scope.onmessage = async ({ data }) => {
+  if (data.type === 'cancel') {
+    cancelled.add(data.id);
+    return;
+  }
+
+  try {
+    const result = await run(data.type, data.payload, createReporter(data.id));
+    scope.postMessage({ id: data.id, type: 'result', result });
+  } catch (error) {
+    scope.postMessage({
+      id: data.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof CancelledError
+    });
+  } finally {
+    cancelled.delete(data.id);
+  }
+};
@@ -0,0 +1,161 @@
+import { Language } from './lib/analysis/types';
+import { PageSpan } from './lib/extraction/types';
+import { RedactionDecision } from './lib/redaction/types';
+import { Chunk, ChunkingOptions, RowRange } from './lib/chunking/types';
+import { RetrievalScope } from './lib/search/scope';
+import { DiffStats } from './lib/versioning/diff';
+import { IngestionStage } from './lib/worker/protocol';
+import { InspectedHit } from './lib/retrieval/retriever';
+
+// A superseded version of a document, kept for history and rollback
+export interface DocumentVersion {
+  version: number;
+  contentHash: string;
+  content: string;
+  size: number;
+  uploadedAt: Date;
+  chunking: ChunkingOptions;
+  fileName?: string;
+  pages?: PageSpan[];
+  // Line changes relative to the version before it
+  diff?: DiffStats;
+  restoredFrom?: number;
+  redaction?: RedactionDecision[];
+}
+
+export interface Document {
+  id: string;
+  title: string;
+  content: string;
+  chunks: Chunk[];
+  chunking: ChunkingOptions;
+  uploadedAt: Date;
+  size: number;
+  // SHA-256 of the content, used to detect duplicate uploads
+  contentHash: string;
+  version: number;
+  diff?: DiffStats;
+  restoredFrom?: number;
+  versions: DocumentVersion[];
+  fileName?: string;
+  // Path within the folder or archive the file was uploaded from
+  relativePath?: string;
+  collection?: string;
+  tags: string[];
+  // Page boundaries for paginated sources such as PDFs
+  pages?: PageSpan[];
+  // What was done with sensitive data found when the content was added
+  redaction?: RedactionDecision[];
+  // Detected from the content; picks the analyzer used to index and search it
+  language?: Language;
+  // One vector per chunk, tagged with the embedding model that produced them
+  embeddings?: number[][];
+  embeddingModel?: string;
+  embeddingError?: string;
+}
+
+export interface DocumentMetadata {
+  fileName?: string;
+  relativePath?: string;
+  collection?: string;
+  tags?: string[];
+  pages?: PageSpan[];
+  chunking?: Partial<ChunkingOptions>;
+  redaction?: RedactionDecision[];
+}
+
+export type AddDocumentResult =
+  // 'duplicate' means identical content already exists and nothing was added
+  | { status: 'added' | 'updated' | 'duplicate'; document: Document }
+  | { status: 'cancelled' };
+
+// A file or document on its way into the knowledge base
+export interface IngestionStatus {
+  // Document id, or a request id while a file is still being read
+  id: string;
+  title: string;
+  stage: IngestionStage | 'indexed';
+  // Fraction of the current stage completed, in [0, 1]
+  progress: number;
+}
+
+export interface Source {
+  // Citation number, referenced as [id] in the answer text
+  id: number;
+  docId: string;
+  // Document version the offsets refer to
+  version?: number;
+  chunkIndex: number;
+  // Character range of the cited chunk in the document content
+  start: number;
+  end: number;
+  title: string;
+  content: string;
+  relevance: number;
+  headingPath?: string[];
+  page?: number;
+  // Spreadsheet rows of a CSV or TSV chunk
+  rows?: RowRange;
+  // User's verdict on whether the passage helped answer the question
+  judgement?: 'relevant' | 'irrelevant';
+}
+
+export interface ChatMessage {
+  id: string;
+  conversationId: string;
+  content: string;
+  sender: 'user' | 'assistant';
+  timestamp: Date;
+  sources?: Source[];
+  // Standalone query used for retrieval when it differs from the question as asked
+  searchQuery?: string;
+  isStreaming?: boolean;
+  stopped?: boolean;
+  // Thumbs up or down on an assistant answer
+  rating?: 'up' | 'down';
+  // Every answer generated for the question once it has been regenerated. The message's own
+  // fields hold the one shown, which is variants[activeVariant] (possibly out of date there).
+  variants?: AnswerVariant[];
+  activeVariant?: number;
+}
+
+// One generated answer to a question
+export type AnswerVariant = Pick<ChatMessage, 'content' | 'sources' | 'searchQuery' | 'stopped' | 'rating'>;
+
+// A retrieval candidate as shown in the inspector, with the chunk it points to
+export interface RetrievalCandidate extends InspectedHit {
+  title: string;
+  version: number;
+  content: string;
+  start: number;
+  end: number;
+  headingPath?: string[];
+  page?: number;
+  rows?: RowRange;
+}
+
+export interface RetrievalDebugResult {
+  candidates: RetrievalCandidate[];
+  // Candidates found before the inspector's display limit
+  total: number;
+  // Documents outside the conversation's scope, which were not searched
+  outOfScope: number;
+}
+
+// A thumbs-down answer with the question that led to it, for review
+export interface DownvotedAnswer {
+  message: ChatMessage;
+  question: string;
+  conversation?: Conversation;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Part of the knowledge base the conversation is restricted to; undefined means everything
+  scope?: RetrievalScope;
+  // Conversation this one was branched from by editing a question
+  branchedFrom?: string;
+}